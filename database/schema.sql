@@ -11,17 +11,43 @@ CREATE TABLE IF NOT EXISTS transactions (
   sender TEXT NOT NULL,
   item TEXT NOT NULL,
   amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  -- purchase raises the balance owed; payment, refund and return lower it
+  kind TEXT NOT NULL DEFAULT 'purchase' CHECK (kind IN ('purchase', 'payment', 'refund', 'return')),
+  -- e.g. 5 kg for "chal 5kg 350"; NULL when the message gave no quantity
+  quantity DECIMAL(10,3) CHECK (quantity > 0),
+  unit TEXT CHECK (unit IN ('pcs', 'kg', 'g', 'litre', 'dozen', 'hali')),
   original_message TEXT,
+  -- Parser version, rule and source lines that produced the row
+  parse_trace JSONB,
+  -- Problems found while parsing, e.g. total_mismatch on an unallocated line
+  flags TEXT[],
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Existing databases: add the kind column (all earlier rows are purchases)
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'purchase'
+  CHECK (kind IN ('purchase', 'payment', 'refund', 'return'));
+
+-- Existing databases: add the quantity and unit columns
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS quantity DECIMAL(10,3) CHECK (quantity > 0),
+  ADD COLUMN IF NOT EXISTS unit TEXT CHECK (unit IN ('pcs', 'kg', 'g', 'litre', 'dozen', 'hali'));
+
+-- Existing databases: add the parse trace column
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS parse_trace JSONB;
+
+-- Existing databases: add the flags column
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS flags TEXT[];
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
 CREATE INDEX IF NOT EXISTS idx_transactions_sender ON transactions(sender);
 CREATE INDEX IF NOT EXISTS idx_transactions_item ON transactions(item);
 CREATE INDEX IF NOT EXISTS idx_transactions_amount ON transactions(amount);
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_kind ON transactions(kind);
 
 -- Create a composite index for common queries
 CREATE INDEX IF NOT EXISTS idx_transactions_date_sender ON transactions(date, sender);
@@ -82,21 +108,25 @@ SELECT
     DATE_TRUNC('month', date) as month,
     sender,
     item,
+    kind,
     COUNT(*) as transaction_count,
     SUM(amount) as total_amount,
     AVG(amount) as average_amount,
     MIN(amount) as min_amount,
     MAX(amount) as max_amount
 FROM transactions
-GROUP BY DATE_TRUNC('month', date), sender, item
+GROUP BY DATE_TRUNC('month', date), sender, item, kind
 ORDER BY month DESC, total_amount DESC;
 
 -- Create a function to get monthly spending summary
+-- total_amount is net spending (purchases minus refunds and returns); payments are reported separately
+DROP FUNCTION IF EXISTS get_monthly_spending();
 CREATE OR REPLACE FUNCTION get_monthly_spending()
 RETURNS TABLE (
     month TEXT,
     year INTEGER,
     total_amount DECIMAL,
+    total_paid DECIMAL,
     transaction_count BIGINT
 ) AS $$
 BEGIN
@@ -104,8 +134,13 @@ BEGIN
     SELECT 
         TO_CHAR(DATE_TRUNC('month', t.date), 'Month') as month,
         EXTRACT(YEAR FROM t.date)::INTEGER as year,
-        SUM(t.amount) as total_amount,
-        COUNT(*) as transaction_count
+        COALESCE(SUM(CASE t.kind
+            WHEN 'purchase' THEN t.amount
+            WHEN 'payment' THEN 0
+            ELSE -t.amount
+        END), 0) as total_amount,
+        COALESCE(SUM(t.amount) FILTER (WHERE t.kind = 'payment'), 0) as total_paid,
+        COUNT(*) FILTER (WHERE t.kind = 'purchase') as transaction_count
     FROM transactions t
     GROUP BY DATE_TRUNC('month', t.date), EXTRACT(YEAR FROM t.date)
     ORDER BY DATE_TRUNC('month', t.date) DESC;
@@ -126,16 +161,19 @@ BEGIN
         COUNT(*) as count,
         SUM(t.amount) as total_amount
     FROM transactions t
+    WHERE t.kind = 'purchase'
     GROUP BY t.item
     ORDER BY COUNT(*) DESC, SUM(t.amount) DESC;
 END;
 $$ LANGUAGE plpgsql;
 
 -- Create a function to get transaction statistics
+DROP FUNCTION IF EXISTS get_transaction_stats();
 CREATE OR REPLACE FUNCTION get_transaction_stats()
 RETURNS TABLE (
     total_transactions BIGINT,
     total_amount DECIMAL,
+    total_paid DECIMAL,
     average_amount DECIMAL,
     earliest_date TIMESTAMP WITH TIME ZONE,
     latest_date TIMESTAMP WITH TIME ZONE,
@@ -146,11 +184,16 @@ BEGIN
     RETURN QUERY
     SELECT 
         COUNT(*) as total_transactions,
-        SUM(amount) as total_amount,
-        AVG(amount) as average_amount,
+        COALESCE(SUM(CASE kind
+            WHEN 'purchase' THEN amount
+            WHEN 'payment' THEN 0
+            ELSE -amount
+        END), 0) as total_amount,
+        COALESCE(SUM(amount) FILTER (WHERE kind = 'payment'), 0) as total_paid,
+        AVG(amount) FILTER (WHERE kind = 'purchase') as average_amount,
         MIN(date) as earliest_date,
         MAX(date) as latest_date,
-        COUNT(DISTINCT item) as unique_items,
+        COUNT(DISTINCT item) FILTER (WHERE kind = 'purchase') as unique_items,
         COUNT(DISTINCT sender) as unique_senders
     FROM transactions;
 END;
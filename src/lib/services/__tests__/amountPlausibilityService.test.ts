@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { AmountPlausibilityService } from '../amountPlausibilityService';
+import { ImportStagingService } from '../importStagingService';
+import { ParserPipeline } from '../parserPipeline';
+import type { Transaction } from '../../types';
+
+function purchase(id: string, item: string, amount: number, extra: Partial<Transaction> = {}): Transaction {
+  const date = new Date();
+  return { id, date, sender: 'Monir', item, amount, kind: 'purchase', createdAt: date, updatedAt: date, ...extra };
+}
+
+const history = (item: string, amounts: number[], extra: Partial<Transaction> = {}) =>
+  amounts.map((amount, i) => purchase(`${item}-${i}`, item, amount, extra));
+
+describe('AmountPlausibilityService', () => {
+  it('should flag amounts far from what an item usually costs', () => {
+    const service = new AmountPlausibilityService();
+    service.setSavedTransactions(history('chips', [20, 20, 25, 30, 20]));
+
+    expect(service.getBounds('chips')).toMatchObject({ median: 20, samples: 5, basis: 'item' });
+    expect(service.isOutlier(purchase('new', 'chips', 30))).toBe(false);
+
+    const flagged = service.flag(purchase('new', 'chips', 4000, {
+      trace: { parserVersion: '1.6.0', rule: 'paired', tokens: [], decisions: [] }
+    }));
+    expect(flagged.flags).toEqual(['amount_outlier']);
+    expect(flagged.trace!.decisions[0]).toMatch(/^4000 is outside the usual .* for chips \(median 20 of 5 purchases\)$/);
+  });
+
+  it('should keep large amounts that the parser used to drop', () => {
+    const service = new AmountPlausibilityService();
+    service.setSavedTransactions(history('rice', [5800, 6200, 6000, 6100]));
+
+    const [rice] = new ParserPipeline().parse('15/08/2025, 5:33 pm - Monir: কেনা ৬০০০ বিবরণ rice 6000').transactions;
+
+    expect(rice).toMatchObject({ item: 'rice', amount: 6000 });
+    expect(service.flag(rice).flags).toBeUndefined();
+  });
+
+  it('should compare prices per unit when the quantity is known', () => {
+    const service = new AmountPlausibilityService();
+    service.setSavedTransactions([
+      ...history('dim', [120, 120, 130, 125], { quantity: 12, unit: 'pcs' }),
+      ...history('rice', [300, 320, 310, 300], { quantity: 5, unit: 'kg' }),
+      purchase('dozen', 'dim', 125, { quantity: 1, unit: 'dozen' })
+    ]);
+
+    expect(service.getBounds('dim', undefined, 'pcs')).toMatchObject({ median: 10.42, samples: 5, unit: 'pcs' });
+    expect(service.isOutlier(purchase('new', 'dim', 10, { quantity: 1 }))).toBe(false);
+    expect(service.isOutlier(purchase('new', 'rice', 1550, { quantity: 25, unit: 'kg' }))).toBe(false);
+    expect(service.isOutlier(purchase('new', 'rice', 1550, { quantity: 500, unit: 'g' }))).toBe(true);
+    // Without a quantity there is no per-unit price, and no whole amounts to compare with
+    expect(service.getBounds('rice')).toBeNull();
+
+    const flagged = service.flag(purchase('new', 'dim', 600, {
+      quantity: 1,
+      trace: { parserVersion: '1.6.0', rule: 'paired', tokens: [], decisions: [] }
+    }));
+    expect(flagged.trace!.decisions[0]).toMatch(/^600 per pcs is outside the usual .* per pcs for dim/);
+  });
+
+  it('should judge a rarely bought item by its category and wait for enough history', () => {
+    const service = new AmountPlausibilityService();
+    service.setSavedTransactions([
+      ...history('lays', [20, 25, 20], { categoryId: 'snacks' }),
+      ...history('pringles', [30, 25], { categoryId: 'snacks' }),
+      ...history('gas', [1200, 1300])
+    ]);
+
+    expect(service.getBounds('lays')).toMatchObject({ basis: 'category', samples: 5 });
+    expect(service.isOutlier(purchase('new', 'lays', 400))).toBe(true);
+    expect(service.isOutlier(purchase('new', 'gas', 15000))).toBe(false);
+  });
+
+  it('should learn an outlier once the user keeps it', () => {
+    const service = new AmountPlausibilityService();
+    const saved = history('chips', [20, 20, 25, 30]);
+    service.setSavedTransactions(saved);
+
+    const staging = new ImportStagingService();
+    const batch = staging.stage(
+      {
+        transactions: [purchase('big', 'chips', 400), purchase('small', 'chips', 25)],
+        errors: [],
+        summary: { totalLines: 2, successfulTransactions: 2, failedLines: 0, duplicatesSkipped: 0, processingTime: 0 },
+        suspiciousTransactions: []
+      },
+      'chat.txt',
+      undefined,
+      undefined,
+      transaction => service.flag(transaction)
+    );
+    expect(batch.rows.map(row => row.transaction.flags)).toEqual([['amount_outlier'], undefined]);
+
+    // Unconfirmed, the outlier isn't learned; kept, amounts like it are usual
+    service.setSavedTransactions([...saved, batch.rows[0].transaction]);
+    expect(service.isOutlier(purchase('next', 'chips', 380))).toBe(true);
+
+    const kept = staging.confirmAmount(batch, batch.rows[0].key);
+    expect(kept.rows[0].transaction.flags).toBeUndefined();
+    service.setSavedTransactions([...saved, kept.rows[0].transaction]);
+    expect(service.isOutlier(purchase('next', 'chips', 380))).toBe(false);
+    expect(service.isOutlier(purchase('next', 'chips', 4000))).toBe(true);
+  });
+});
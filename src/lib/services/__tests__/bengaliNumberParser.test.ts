@@ -0,0 +1,58 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { BengaliNumberParser } from '../bengaliNumberParser';
+import { ReliableParser } from '../reliableParser';
+import { TextProcessor } from '../textProcessor';
+
+describe('BengaliNumberParser', () => {
+  let parser: BengaliNumberParser;
+
+  beforeEach(() => {
+    parser = new BengaliNumberParser();
+  });
+
+  it('should read compound numbers', () => {
+    expect(parser.parse('দুইশ পঞ্চাশ')).toBe(250);
+    expect(parser.parse('এক হাজার দুইশ')).toBe(1200);
+    expect(parser.parse('দুই লাখ পঞ্চাশ হাজার')).toBe(250000);
+    expect(parser.parse('হাজার')).toBe(1000);
+    expect(parser.parse('২ হাজার')).toBe(2000);
+  });
+
+  it('should read fractions', () => {
+    expect(parser.parse('সাড়ে তিনশ')).toBe(350);
+    expect(parser.parse('দেড়শ')).toBe(150);
+    expect(parser.parse('আড়াই হাজার')).toBe(2500);
+    expect(parser.parse('পৌনে দুইশ')).toBe(175);
+    expect(parser.parse('সাড়ে তিন')).toBe(3.5);
+  });
+
+  it('should match decomposed and precomposed spellings', () => {
+    expect(parser.parse('দে\u09DCশ')).toBe(150);
+    expect(parser.parse('দে\u09A1\u09BCশ')).toBe(150);
+  });
+
+  it('should reject phrases that are not numbers', () => {
+    expect(parser.parse('tel')).toBeNull();
+    expect(parser.parse('সাড়ে')).toBeNull();
+  });
+
+  it('should convert numbers inside free text and leave the rest', () => {
+    expect(parser.convertText('milk দুইশ পঞ্চাশ ডিম পঞ্চাশ')).toBe('milk 250 ডিম 50');
+    expect(parser.convertText('কেনা ১৩,১০৬')).toBe('কেনা 13,106');
+    expect(parser.convertText('পঞ্চাশ ষাট')).toBe('50 60');
+    expect(parser.convertText('আটা সাড়ে')).toBe('আটা সাড়ে');
+  });
+
+  it('should give both parsing paths the same amounts', async () => {
+    const content = `15/08/2025, 5:33 pm - Monir: লেনদেন রেকর্ড
+কেনা ২৫৬
+বর্তমান বাকি ১৩,১০৫
+বিবরণ sabun দুইশ পঞ্চাশ cokr ৬`;
+
+    const reliable = await new ReliableParser().parseFile(content);
+    const csv = new TextProcessor().processWhatsAppToCSV(content);
+
+    expect(reliable.transactions.map(t => t.amount)).toEqual([250, 6]);
+    expect(csv.split('\n').slice(1).map(row => row.split(',')[2])).toEqual(['250', '6']);
+  });
+});
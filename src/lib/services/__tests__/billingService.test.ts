@@ -58,6 +58,41 @@ describe('BillingService', () => {
     });
   });
 
+  describe('configurable billing cycle', () => {
+    it('should use calendar months when the cycle starts on the 1st', () => {
+      const service = new BillingService({ startDay: 1 });
+      const periods = (service as any).generateMonthPeriods(new Date(2024, 0, 10), new Date(2024, 1, 20));
+
+      expect(periods).toHaveLength(2);
+      expect(periods[0].startDate).toEqual(new Date(2024, 0, 1));
+      expect(periods[0].endDate).toEqual(new Date(2024, 0, 31));
+      expect(periods[0].month).toBe(1);
+      expect(periods[1].startDate).toEqual(new Date(2024, 1, 1));
+      expect(periods[1].endDate).toEqual(new Date(2024, 1, 20));
+    });
+
+    it('should fall back to the last day of short months', () => {
+      const service = new BillingService({ startDay: 31 });
+      const periods = (service as any).generateMonthPeriods(new Date(2024, 1, 10), new Date(2024, 3, 10));
+
+      expect(periods.map((p: { startDate: Date }) => p.startDate)).toEqual([
+        new Date(2024, 0, 31),
+        new Date(2024, 1, 29),
+        new Date(2024, 2, 31)
+      ]);
+      expect(periods[0].endDate).toEqual(new Date(2024, 1, 28));
+      expect(periods[1].endDate).toEqual(new Date(2024, 2, 30));
+    });
+
+    it('should label a cycle starting on the 25th with the month it ends in', () => {
+      const service = new BillingService({ startDay: 25 });
+      const period = service.createMonthPeriod(2024, 2);
+
+      expect(period.startDate).toEqual(new Date(2024, 1, 25));
+      expect(period.endDate).toEqual(new Date(2024, 2, 24, 23, 59, 59, 999));
+    });
+  });
+
   describe('getAvailableMonths', () => {
     it('should return correct month labels for 15th-to-14th cycles', () => {
       // Create test transactions spanning different periods
@@ -120,4 +155,113 @@ describe('BillingService', () => {
       expect(months[2].endDate).toEqual(new Date(2024, 1, 20));
     });
   });
+
+  describe('generateBillingSummary', () => {
+    it('should keep payments and returns out of the purchase totals', () => {
+      const entry = (id: string, day: number, item: string, amount: number, kind?: Transaction['kind']): Transaction => ({
+        id,
+        date: new Date(2024, 1, day),
+        sender: 'Monir',
+        item,
+        amount,
+        kind,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      const transactions: Transaction[] = [
+        entry('1', 16, 'milk', 100),
+        entry('2', 17, 'bread', 50, 'purchase'),
+        entry('3', 18, 'payment', 120, 'payment'),
+        entry('4', 19, 'bread', 50, 'return')
+      ];
+
+      const summary = billingService.generateBillingSummary(
+        transactions,
+        billingService.createMonthPeriod(2024, 2)
+      );
+
+      expect(summary.grandTotal).toBe(150);
+      expect(summary.totalPaid).toBe(120);
+      expect(summary.totalCredits).toBe(50);
+      expect(summary.dailyBills).toHaveLength(2);
+      expect(summary.monthlyBills[0].itemSummary.map(item => item.item)).toEqual(['milk', 'bread']);
+      expect(summary.monthlyBills[0].totalPaid).toBe(120);
+    });
+  });
+
+  describe('generateStatements', () => {
+    it('should carry each closing balance into the next cycle', () => {
+      const entry = (id: string, date: Date, amount: number, kind?: Transaction['kind']): Transaction => ({
+        id,
+        date,
+        sender: 'Monir',
+        item: kind === 'payment' ? 'payment' : 'milk',
+        amount,
+        kind,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      const transactions: Transaction[] = [
+        entry('1', new Date(2024, 0, 10), 300),                    // before the period
+        entry('2', new Date(2024, 0, 20), 100),
+        entry('3', new Date(2024, 1, 14, 20, 30), 50),             // last evening of the cycle
+        entry('4', new Date(2024, 1, 16), 200, 'payment'),
+        entry('5', new Date(2024, 1, 20), 30, 'return'),
+        entry('6', new Date(2024, 1, 22), 80)
+      ];
+
+      const statements = billingService.generateStatements(
+        transactions,
+        billingService.createCustomPeriod(new Date(2024, 0, 15), new Date(2024, 2, 14, 23, 59, 59)),
+        1000
+      );
+
+      expect(statements).toHaveLength(2);
+      expect(statements[0]).toMatchObject({
+        month: 'February',
+        openingBalance: 1300,
+        purchases: 150,
+        payments: 0,
+        adjustments: 0,
+        closingBalance: 1450
+      });
+      expect(statements[1]).toMatchObject({
+        month: 'March',
+        openingBalance: 1450,
+        purchases: 80,
+        payments: 200,
+        adjustments: 30,
+        closingBalance: 1300
+      });
+    });
+  });
+  describe('combineItems', () => {
+    const purchase = (id: string, item: string, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+      id,
+      date: new Date(2024, 0, 20),
+      sender: 'Monir',
+      item,
+      amount,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...extra
+    });
+
+    it('should add up real quantities in a common unit', () => {
+      const items = (billingService as any).combineItems([
+        purchase('1', 'rice', 350, { quantity: 5, unit: 'kg' }),
+        purchase('2', 'rice', 35, { quantity: 500, unit: 'g' }),
+        purchase('3', 'egg', 100, { quantity: 2, unit: 'hali' }),
+        purchase('4', 'egg', 150, { quantity: 1, unit: 'dozen' }),
+        purchase('5', 'cokr', 40),
+        purchase('6', 'cokr', 40)
+      ]);
+
+      expect(items).toEqual([
+        { item: 'rice', quantity: 5.5, unit: 'kg', unitPrice: 70, totalPrice: 385 },
+        { item: 'egg', quantity: 20, unit: 'pcs', unitPrice: 12.5, totalPrice: 250 },
+        { item: 'cokr', quantity: 2, unitPrice: 40, totalPrice: 80 }
+      ]);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { ChatArchiveService } from '../chatArchiveService';
+
+// Build a zip archive in memory; text files are deflated, everything else stored
+function createZip(files: Record<string, string | Uint8Array>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = typeof content === 'string' ? encoder.encode(content) : content;
+    const deflate = typeof content === 'string';
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, deflate ? 8 : 0, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, deflate ? 8 : 0, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output.buffer;
+}
+
+describe('ChatArchiveService', () => {
+  let service: ChatArchiveService;
+
+  beforeEach(() => {
+    service = new ChatArchiveService();
+  });
+
+  it('should read the chat text and list the other files', async () => {
+    const archive = await service.openArchive(createZip({
+      '_chat.txt': '[15/08/25, 17:33:10] Monir: milk 100',
+      '00000012-PHOTO-2025-08-15-17-33-10.jpg': new Uint8Array([0xff, 0xd8, 0xff]),
+      '__MACOSX/._chat.txt': new Uint8Array([0])
+    }));
+
+    expect(archive.chatFileName).toBe('_chat.txt');
+    expect(archive.content).toBe('[15/08/25, 17:33:10] Monir: milk 100');
+    expect(archive.attachments).toEqual([{
+      name: '00000012-PHOTO-2025-08-15-17-33-10.jpg',
+      size: 3,
+      mimeType: 'image/jpeg',
+      date: new Date(2025, 7, 15)
+    }]);
+  });
+
+  it('should read attachments on demand', async () => {
+    const archive = await service.openArchive(createZip({
+      'WhatsApp Chat with Monir.txt': '15/08/2025, 5:33 pm - Monir: milk 100',
+      'IMG-20250815-WA0003.jpg': new Uint8Array([1, 2, 3, 4])
+    }));
+
+    const blob = await archive.readAttachment('IMG-20250815-WA0003.jpg');
+
+    expect(archive.chatFileName).toBe('WhatsApp Chat with Monir.txt');
+    expect(blob.type).toBe('image/jpeg');
+    expect(blob.size).toBe(4);
+  });
+
+  it('should reject archives without a chat', async () => {
+    await expect(service.openArchive(createZip({ 'photo.jpg': new Uint8Array([1]) })))
+      .rejects.toThrow('No chat text file found in the archive');
+  });
+
+  it('should reject files that are not zip archives', async () => {
+    await expect(service.openArchive(new TextEncoder().encode('not a zip').buffer))
+      .rejects.toThrow('Not a zip archive');
+  });
+});
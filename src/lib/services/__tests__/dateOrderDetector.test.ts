@@ -0,0 +1,42 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { DateOrderDetector } from '../dateOrderDetector';
+import { CSVParser } from '../csvParser';
+
+describe('DateOrderDetector', () => {
+  let detector: DateOrderDetector;
+
+  beforeEach(() => {
+    detector = new DateOrderDetector();
+  });
+
+  it('should use a field above 12 to tell the day apart', () => {
+    expect(detector.detect([{ first: 3, second: 4, year: 2025 }, { first: 3, second: 21, year: 2025 }]))
+      .toEqual({ order: 'mdy', reason: 'impossible_values' });
+  });
+
+  it('should prefer the order that keeps timestamps moving forward', () => {
+    // 2/1 then 1/2 is 2 Jan → 1 Feb day first, but Feb 1 → Jan 2 month first
+    const dates = [
+      { first: 2, second: 1, year: 2025, hours: 9, minutes: 0 },
+      { first: 1, second: 2, year: 2025, hours: 9, minutes: 0 }
+    ];
+
+    expect(detector.detect(dates)).toEqual({ order: 'dmy', reason: 'chronology' });
+    expect(detector.detect([...dates].reverse())).toEqual({ order: 'mdy', reason: 'chronology' });
+  });
+
+  it('should fall back to day first when nothing decides', () => {
+    expect(detector.detect([{ first: 5, second: 5, year: 2025 }])).toEqual({ order: 'dmy', reason: 'default' });
+  });
+
+  it('should reject dates that do not exist', () => {
+    expect(detector.toDate({ first: 31, second: 2, year: 2025 }, 'dmy')).toBeNull();
+    expect(detector.toDate({ first: 2, second: 13, year: 25 }, 'dmy')).toBeNull();
+  });
+
+  it('should let CSVParser read month-first files', () => {
+    const transactions = new CSVParser().parseCSV('Date,Item,Amount\n08/15/2025,milk,100\n08/16/2025,dim,60');
+
+    expect(transactions.map(t => t.date)).toEqual([new Date(2025, 7, 15), new Date(2025, 7, 16)]);
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { HeaderDetector } from '../headerDetector';
+import { ReliableParser } from '../reliableParser';
+
+describe('HeaderDetector', () => {
+  let detector: HeaderDetector;
+
+  beforeEach(() => {
+    detector = new HeaderDetector();
+  });
+
+  describe('parseHeader', () => {
+    it('should parse Android 12-hour headers', () => {
+      expect(detector.parseHeader('15/08/2025, 5:33 pm - Monir: milk 100')).toEqual({
+        date: new Date(2025, 7, 15, 17, 33),
+        sender: 'Monir',
+        message: 'milk 100'
+      });
+    });
+
+    it('should parse iOS headers with seconds and two-digit years', () => {
+      expect(detector.parseHeader('[15/08/25, 17:33:10] Monir: milk 100')).toEqual({
+        date: new Date(2025, 7, 15, 17, 33),
+        sender: 'Monir',
+        message: 'milk 100'
+      });
+    });
+
+    it('should accept dot and dash date separators and 24-hour times', () => {
+      expect(detector.parseHeader('15.08.25, 09:05 - Monir: dim')?.date).toEqual(new Date(2025, 7, 15, 9, 5));
+      expect(detector.parseHeader('15-08-2025 21:40 - Monir: dim')?.date).toEqual(new Date(2025, 7, 15, 21, 40));
+    });
+
+    it('should ignore invisible direction marks and narrow spaces', () => {
+      const header = detector.parseHeader('\u200E[15/08/25, 5:33:10\u202FPM] \u202AMonir\u202C: dim');
+
+      expect(header).toEqual({
+        date: new Date(2025, 7, 15, 17, 33),
+        sender: 'Monir',
+        message: 'dim'
+      });
+    });
+
+    it('should reject lines that are not headers', () => {
+      expect(detector.parseHeader('বিবরণ milk 100')).toBeNull();
+      expect(detector.parseHeader('15/13/2025, 5:33 pm - Monir: dim')).toBeNull();
+    });
+  });
+
+  describe('detectFormat', () => {
+    it('should report the format used by most headers', () => {
+      const content = `[15.08.25, 17:33:10] Monir: milk 100
+[15.08.25, 17:40:02] Munia: ok
+continued line`;
+
+      expect(detector.detectFormat(content)).toEqual({
+        platform: 'ios',
+        dateSeparator: '.',
+        clock: '24h',
+        dateOrder: { order: 'dmy', reason: 'impossible_values' }
+      });
+    });
+
+    it('should read US-locale exports month first', () => {
+      const content = `8/15/25, 5:33 PM - Monir: dim
+8/16/25, 9:10 AM - Monir: dudh`;
+
+      const format = detector.detectFormat(content);
+
+      expect(format?.dateOrder).toEqual({ order: 'mdy', reason: 'impossible_values' });
+      expect(detector.parseHeader('8/15/25, 5:33 PM - Monir: dim', format)?.date).toEqual(new Date(2025, 7, 15, 17, 33));
+    });
+
+    it('should let an override win over detection', () => {
+      const format = detector.detectFormat('15/08/25, 5:33 pm - Monir: dim', 'mdy');
+
+      expect(format?.dateOrder).toEqual({ order: 'mdy', reason: 'override' });
+    });
+
+    it('should return null when no header is found', () => {
+      expect(detector.detectFormat('just some text')).toBeNull();
+    });
+  });
+
+  it('should let ReliableParser read iOS exports and report the format', async () => {
+    const content = `[15/08/25, 17:33:10] Monir: লেনদেন রেকর্ড
+কেনা ৪০
+বর্তমান বাকি ১৩,১০৫
+বিবরণ cokr`;
+
+    const result = await new ReliableParser().parseFile(content);
+
+    expect(result.receipts).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({ item: 'cokr', amount: 40, sender: 'Monir' });
+    expect(result.summary.detectedFormat).toMatchObject({ platform: 'ios', dateSeparator: '/', clock: '24h' });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ImportStagingService } from '../importStagingService';
+import type { ParseResult, Transaction } from '../../types';
+
+const row = (id: string, item: string, amount: number, lines = { start: 1, end: 3 }, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  date: new Date(2025, 7, 15, 17, 33),
+  item,
+  amount,
+  sender: 'Monir',
+  kind: 'purchase',
+  trace: { parserVersion: '1.3.0', rule: 'paired', lines, tokens: [], decisions: [] },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...extra
+});
+
+const result = (transactions: Transaction[]): ParseResult => ({
+  transactions,
+  errors: [],
+  summary: { totalLines: 10, successfulTransactions: transactions.length, failedLines: 0, duplicatesSkipped: 0, processingTime: 0 },
+  suspiciousTransactions: []
+});
+
+describe('ImportStagingService', () => {
+  const staging = new ImportStagingService();
+
+  it('should skip duplicates of saved transactions unless told otherwise', () => {
+    const saved = row('saved', 'sabun', 50);
+    const batch = staging.stage(
+      result([row('a', 'sabun', 50), row('b', 'dudh', 60)]),
+      'chat.txt',
+      incoming => [{ transaction: incoming[0], existing: saved, similarity: 1, reason: 'same_time' }]
+    );
+
+    expect(batch.rows[0]).toMatchObject({ duplicate: { existing: saved }, duplicateAction: 'skip' });
+    expect(staging.toPlan(batch)).toMatchObject({ add: [{ id: 'b' }], addDuplicates: [], merge: [] });
+
+    const merged = staging.setDuplicateAction(batch, batch.rows[0].key, 'merge');
+    expect(staging.toPlan(merged).merge).toEqual([expect.objectContaining({ id: 'saved' })]);
+  });
+
+  it('should split a row and merge it back within the same message', () => {
+    let batch = staging.stage(result([row('a', 'chal', 101, undefined, { quantity: 2, unit: 'kg' })]), 'chat.txt');
+
+    batch = staging.splitRow(batch, batch.rows[0].key);
+    expect(batch.rows.map(r => r.transaction.amount)).toEqual([50.5, 50.5]);
+    expect(batch.rows[0].transaction.id).not.toBe(batch.rows[1].transaction.id);
+
+    batch = staging.mergeWithPrevious(batch, batch.rows[1].key);
+    expect(batch.rows).toHaveLength(1);
+    expect(batch.rows[0].transaction).toMatchObject({ id: 'a', amount: 101, quantity: 4, unit: 'kg' });
+  });
+
+  it('should not merge rows from different messages', () => {
+    const batch = staging.stage(result([row('a', 'chal', 100), row('b', 'dal', 80, { start: 5, end: 6 })]), 'chat.txt');
+
+    expect(() => staging.mergeWithPrevious(batch, batch.rows[1].key)).toThrow();
+  });
+
+  it('should leave out rejected messages and keep edits', () => {
+    let batch = staging.stage(
+      result([row('a', 'chal', 100), row('b', 'dal', 80), row('c', 'tel', 200, { start: 5, end: 6 })]),
+      'chat.txt'
+    );
+
+    batch = staging.setMessageAccepted(batch, batch.rows[0].messageKey, false);
+    batch = staging.updateRow(batch, batch.rows[2].key, { item: 'soybean tel', amount: 210 });
+
+    expect(staging.toPlan(batch).add).toEqual([expect.objectContaining({ id: 'c', item: 'soybean tel', amount: 210 })]);
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { ImportWatermarkService } from '../importWatermarkService';
+import { ParserWorkerClient } from '../parserWorkerClient';
+import { TransactionManager } from '../transactionManager';
+
+const FIRST_EXPORT = `15/08/2025, 5:33 pm - Monir: কেনা ৪০ বিবরণ chips
+15/08/2025, 6:00 pm - Monir: কেনা ৫০
+বিবরণ sabun`;
+
+const SECOND_EXPORT = `${FIRST_EXPORT}
+16/08/2025, 9:10 am - Monir: কেনা ৩০ বিবরণ dim
+16/08/2025, 9:15 am - Munia: ok`;
+
+describe('ImportWatermarkService', () => {
+  let service: ImportWatermarkService;
+
+  beforeEach(() => {
+    service = new ImportWatermarkService();
+  });
+
+  it('should keep the whole chat on its first import', () => {
+    const chat = service.skipImported(FIRST_EXPORT, 'monir', ['Monir']);
+
+    expect(chat).toMatchObject({ content: FIRST_EXPORT, skippedMessages: 0, newMessages: 2, since: null });
+  });
+
+  it('should skip messages imported before when the whole history is uploaded again', async () => {
+    await service.recordImport(FIRST_EXPORT, 'monir', ['Monir']);
+
+    const chat = service.skipImported(SECOND_EXPORT, 'monir', ['Monir']);
+
+    expect(chat.content.split('\n')[0]).toBe('16/08/2025, 9:10 am - Monir: কেনা ৩০ বিবরণ dim');
+    expect(chat).toMatchObject({ skippedMessages: 2, newMessages: 2, since: new Date(2025, 7, 15, 18, 0) });
+    expect(service.skipImported(FIRST_EXPORT, 'monir', ['Monir'])).toMatchObject({ content: '', newMessages: 0 });
+  });
+
+  it('should keep watermarks per chat and vendor selection', async () => {
+    await service.recordImport(FIRST_EXPORT, 'monir', ['Monir']);
+
+    expect(service.skipImported(SECOND_EXPORT, 'monir', ['Munia']).skippedMessages).toBe(0);
+    expect(service.skipImported(SECOND_EXPORT, 'rahim', ['Monir']).skippedMessages).toBe(0);
+  });
+
+  it('should not move the watermark back for an older export', async () => {
+    await service.recordImport(SECOND_EXPORT, 'monir', ['Monir']);
+    await service.recordImport(FIRST_EXPORT, 'monir', ['Monir']);
+
+    expect(service.getWatermark('monir', ['monir'])?.timestamp).toEqual(new Date(2025, 7, 16, 9, 15));
+  });
+
+  it('should not take a new message in the minute of an imported one for a re-import', async () => {
+    // Saved transactions must be dated within a year of today
+    const today = new Date();
+    const day = `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
+    const first = `${day}, 5:33 pm - Monir: কেনা ৪০ বিবরণ mojo`;
+    const second = `${first}\n${day}, 5:33 pm - Monir: কেনা ২০ বিবরণ chips`;
+    const parser = new ParserWorkerClient();
+    const manager = new TransactionManager();
+
+    const imported = await parser.parse(first, { vendors: ['Monir'] });
+    await manager.addTransactions(imported!.transactions);
+    await service.recordImport(first, 'monir', ['Monir']);
+
+    const chat = service.skipImported(second, 'monir', ['Monir']);
+    const reimported = await parser.parse(chat.content, { vendors: ['Monir'], dateOrder: chat.format?.dateOrder.order });
+
+    expect(reimported!.transactions.map(t => t.item)).toEqual(['chips']);
+    expect(reimported!.transactions[0].id).not.toBe(imported!.transactions[0].id);
+    expect(manager.findDuplicates(reimported!.transactions)).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { ItemAliasService } from '../itemAliasService';
+import { ReliableParser } from '../reliableParser';
+import { TransactionManager } from '../transactionManager';
+
+describe('ItemAliasService', () => {
+  let aliases: ItemAliasService;
+
+  beforeEach(() => {
+    aliases = new ItemAliasService();
+  });
+
+  it('should start from the default Bengali and Latin spellings', () => {
+    expect(aliases.resolve('ডিম')).toBe('eggs');
+    expect(aliases.resolve('Dim')).toBe('eggs');
+    expect(aliases.resolve('tel')).toBe('oil');
+    expect(aliases.resolve('sabun')).toBeNull();
+  });
+
+  it('should add, edit and refuse spellings that belong to another item', async () => {
+    const soap = aliases.getAliases().find(a => a.name === 'soap')!;
+    await aliases.updateAlias(soap.id, { bengali: ['সাবান'], latin: ['saban', 'sabun'] });
+
+    expect(aliases.resolve('sabun')).toBe('soap');
+    expect(aliases.resolve('সাবান')).toBe('soap');
+    await expect(aliases.createAlias({ name: 'detergent', bengali: [], latin: ['sabun'] })).rejects.toThrow('soap');
+    await expect(aliases.createAlias({ name: 'lentils', bengali: ['dal'], latin: [] })).rejects.toThrow('Bengali script');
+  });
+
+  it('should import an exported dictionary, merging entries by name', async () => {
+    const exported = JSON.parse(aliases.exportAliases());
+    expect(exported).toContainEqual({ name: 'eggs', bengali: ['ডিম'], latin: ['dim'] });
+
+    expect(await aliases.importAliases(JSON.stringify([{ name: 'eggs', latin: ['anda'] }, { name: 'lentils', bengali: ['ডাল'], latin: ['dal'] }]))).toBe(2);
+    expect(aliases.resolve('anda')).toBe('eggs');
+    expect(aliases.resolve('dim')).toBe('eggs');
+    expect(aliases.resolve('ডাল')).toBe('lentils');
+    await expect(aliases.importAliases('{"name": "eggs"}')).rejects.toThrow('Invalid alias file');
+  });
+
+  it('should be used by the parser and when grouping and renaming saved items', async () => {
+    await aliases.createAlias({ name: 'lentils', bengali: ['ডাল'], latin: ['dal'] });
+
+    const result = await new ReliableParser(aliases).parseFile('15/08/2025, 6:00 pm - Monir: কেনা ৮০ বিবরণ dal');
+    expect(result.transactions[0].item).toBe('lentils');
+
+    const manager = new TransactionManager(aliases);
+    const date = new Date();
+    await manager.addTransactions([
+      { id: 'a', date, item: 'ডাল', amount: 80, sender: 'Monir', createdAt: date, updatedAt: date },
+      { id: 'b', date, item: 'Dal', amount: 90, sender: 'Monir', createdAt: date, updatedAt: date }
+    ]);
+    expect(manager.getGroupedTransactions().map(t => t.item)).toEqual(['lentils', 'lentils']);
+
+    const lentils = aliases.getAliases().find(a => a.name === 'lentils')!;
+    expect(await manager.renameItems(item => (aliases.matches(lentils, item) ? lentils.name : null))).toBe(2);
+    expect(manager.getTransactions().map(t => t.item)).toEqual(['lentils', 'lentils']);
+  });
+});
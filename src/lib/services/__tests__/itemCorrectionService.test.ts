@@ -0,0 +1,61 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { ItemCorrectionService } from '../itemCorrectionService';
+import { ImportStagingService } from '../importStagingService';
+import type { ParseResult, Transaction } from '../../types';
+
+function createTransaction(item: string, overrides: Partial<Transaction> = {}): Transaction {
+  const date = new Date();
+  return { id: item, date, sender: 'Monir', item, amount: 40, createdAt: date, updatedAt: date, ...overrides };
+}
+
+describe('ItemCorrectionService', () => {
+  let service: ItemCorrectionService;
+
+  beforeEach(() => {
+    service = new ItemCorrectionService();
+  });
+
+  it('should correct close misspellings of known items in either script', () => {
+    expect(service.correct('cokr')).toMatchObject({ item: 'coke', status: 'corrected', confidence: 0.75 });
+    expect(service.correct('কোকর')).toMatchObject({ item: 'coke', status: 'corrected' });
+    expect(service.correct('ডিম')).toMatchObject({ item: 'ডিম', status: 'known', confidence: 1 });
+  });
+
+  it('should leave less certain matches for review and unrelated items alone', () => {
+    expect(service.correct('pyaaj')).toMatchObject({ item: 'pyaaj', suggestion: 'onion', status: 'review' });
+    expect(service.correct('detergent')).toMatchObject({ item: 'detergent', status: 'new' });
+  });
+
+  it('should learn saved items but not ones still waiting for review', () => {
+    service.setSavedTransactions([
+      createTransaction('Mojo'),
+      createTransaction('Kurkure', { confidence: 0.6 })
+    ]);
+
+    expect(service.correct('mojoo')).toMatchObject({ item: 'Mojo', status: 'corrected' });
+    expect(service.correct('kurkure').status).toBe('new');
+  });
+
+  it('should carry corrections into the staged import and its review', () => {
+    const result = {
+      transactions: [createTransaction('cokr'), createTransaction('pyaaj')],
+      errors: [],
+      suspiciousTransactions: []
+    } as unknown as ParseResult;
+    const staging = new ImportStagingService();
+
+    let batch = staging.stage(result, 'chat.txt', undefined, item => service.correct(item));
+    expect(batch.rows.map(row => [row.transaction.item, row.correction?.status])).toEqual([
+      ['coke', 'corrected'],
+      ['pyaaj', 'review']
+    ]);
+    expect(batch.rows[0].transaction.confidence).toBe(0.75);
+
+    batch = staging.resolveCorrection(batch, batch.rows[0].key, false);
+    batch = staging.resolveCorrection(batch, batch.rows[1].key, true);
+    expect(batch.rows.map(row => [row.transaction.item, row.transaction.confidence, row.correction])).toEqual([
+      ['cokr', 1, undefined],
+      ['onion', 1, undefined]
+    ]);
+  });
+});
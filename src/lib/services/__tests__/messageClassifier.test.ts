@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { MessageClassifier } from '../messageClassifier';
+import { ReliableParser } from '../reliableParser';
+import { WhatsAppParser } from '../whatsappParser';
+
+const CHAT = `15/08/2025, 5:30 pm - Messages and calls are end-to-end encrypted. No one outside of this chat, not even WhatsApp, can read or listen to them. Tap to learn more.
+15/08/2025, 5:33 pm - Monir: কেনা ৪০ বিবরণ chips
+null
+15/08/2025, 5:40 pm - Monir: This message was deleted
+15/08/2025, 5:41 pm - Monir: <Media omitted>
+15/08/2025, 6:00 pm - Monir: কেনা ৫০ বিবরণ dim <This message was edited>
+15/08/2025, 6:05 pm - Monir: null`;
+
+describe('MessageClassifier', () => {
+  const classifier = new MessageClassifier();
+
+  it('should label placeholder and system messages', () => {
+    expect(classifier.classify('This message was deleted')).toBe('deleted');
+    expect(classifier.classify('<Media omitted>')).toBe('media');
+    expect(classifier.classify('IMG-20250815-WA0001.jpg (file attached)')).toBe('media');
+    expect(classifier.classify('Messages and calls are end-to-end encrypted.')).toBe('system');
+    expect(classifier.classify('কেনা ৫০ বিবরণ dim <This message was edited>')).toBe('edited');
+    expect(classifier.classify('কেনা ৫০ বিবরণ dim')).toBe('normal');
+  });
+
+  it('should label every line with its message and count messages by label', () => {
+    const { labels, counts } = classifier.classifyLines(CHAT.split('\n'));
+
+    expect(labels).toEqual(['system', 'normal', null, 'deleted', 'media', 'edited', 'media']);
+    expect(counts).toEqual({ system: 1, deleted: 1, media: 2, edited: 1, normal: 1 });
+  });
+
+  it('should keep placeholders out of the items of both parsers', async () => {
+    for (const parser of [new ReliableParser(), new WhatsAppParser()]) {
+      const result = await parser.parseFile(CHAT);
+
+      expect(result.transactions.map(t => [t.item, t.amount])).toEqual([['chips', 40], ['eggs', 50]]);
+      expect(result.summary.messageLabels).toEqual({ system: 1, deleted: 1, media: 2, edited: 1, normal: 1 });
+    }
+  });
+});
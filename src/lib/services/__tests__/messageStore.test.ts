@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { MessageStore } from '../messageStore';
+import { ParserPipeline } from '../parserPipeline';
+import { ReparseService } from '../reparseService';
+import type { Transaction } from '../../types';
+
+const CHAT = `[15/08/25, 17:33:10] Monir: লেনদেন রেকর্ড
+কেনা ১৫০
+বর্তমান বাকি ১৩,১০৫
+বিবরণ sabun 50 cokr 100
+[15/08/25, 18:00:00] Munia: ar dudh`;
+
+describe('MessageStore', () => {
+  let store: MessageStore;
+
+  beforeEach(() => {
+    store = new MessageStore();
+  });
+
+  it('should keep whole messages with their continuation lines', async () => {
+    expect(await store.addChat(CHAT, 'WhatsApp Chat with Monir.txt')).toBe(2);
+
+    expect(store.getMessages()).toMatchObject([
+      { timestamp: new Date(2025, 7, 15, 17, 33), sender: 'Monir', sourceFile: 'WhatsApp Chat with Monir.txt' },
+      { timestamp: new Date(2025, 7, 15, 18, 0), sender: 'Munia', text: 'ar dudh' }
+    ]);
+    expect(store.getMessages()[0].text.split('\n')).toHaveLength(4);
+  });
+
+  it('should not store a message twice when a chat is imported again', async () => {
+    await store.addChat(CHAT, 'WhatsApp Chat with Monir.txt');
+
+    expect(await store.addChat(CHAT, 'WhatsApp Chat with Monir (1).txt')).toBe(0);
+    expect(store.getSourceFiles()).toEqual(['WhatsApp Chat with Monir.txt']);
+  });
+
+  it('should write messages back as a day-first chat export', async () => {
+    await store.addChat(CHAT, 'chat.txt');
+
+    expect(store.toChatText(store.getMessages()).split('\n')[0]).toBe('15/08/2025, 17:33 - Monir: লেনদেন রেকর্ড');
+  });
+});
+
+describe('ReparseService', () => {
+  const saved = (id: string, item: string, amount: number, date = new Date(2025, 7, 15)): Transaction => ({
+    id,
+    date,
+    sender: 'Monir',
+    item,
+    amount,
+    categoryId: 'household',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  it('should report added, changed and removed transactions for the stored messages only', async () => {
+    const store = new MessageStore();
+    await store.addChat(CHAT, 'chat.txt');
+    const current = [
+      saved('1', 'sabun', 40),
+      saved('2', 'chips', 20),
+      saved('3', 'manual entry', 500, new Date(2025, 7, 20))
+    ];
+
+    const diff = await new ReparseService(store).reparse(current, () => ['Monir']);
+
+    expect(diff.added.map(t => t.item)).toEqual(['cokr']);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].after).toMatchObject({ id: '1', amount: 50, categoryId: 'household' });
+    expect(diff.removed.map(t => t.id)).toEqual(['2']);
+    expect(diff.unchanged).toBe(0);
+  });
+
+  it('should find nothing to change when the sample chat is parsed again unchanged', async () => {
+    const chat = readFileSync('WhatsApp Chat with Monir.txt', 'utf-8');
+    const store = new MessageStore();
+    await store.addChat(chat, 'WhatsApp Chat with Monir.txt', 'dmy');
+    const current = (await new ParserPipeline().parseFile(chat, { dateOrder: 'dmy' })).transactions;
+
+    const diff = await new ReparseService(store).reparse(current);
+
+    expect(current.length).toBeGreaterThan(0);
+    expect(diff).toMatchObject({ added: [], changed: [], removed: [], unchanged: current.length });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ParserPipeline } from '../parserPipeline';
+import { TextProcessor } from '../textProcessor';
+
+const CHAT = `15/08/2025, 5:33 pm - Monir: কেনা ১৫০ বিবরণ sabun 50 cokr 100
+15/08/2025, 6:00 pm - Monir: milk: 100
+bread - 50
+100 for rice`;
+
+describe('ParserPipeline', () => {
+  it('should read free-text purchases once their plugins are configured', async () => {
+    const parser = new ParserPipeline();
+    expect((await parser.parseFile(CHAT)).transactions.map(t => t.item)).toEqual(['sabun', 'cokr']);
+
+    parser.updateConfig({ stages: { extraction: ['receipt', 'description', 'lines'], pairing: ['patterns', 'tokens'] } });
+    const result = await parser.parseFile(CHAT);
+
+    expect(result.transactions.map(t => [t.item, t.amount])).toEqual([
+      ['sabun', 50], ['cokr', 100], ['milk', 100], ['bread', 50], ['rice', 100]
+    ]);
+    expect(result.transactions[2].trace).toMatchObject({ rule: 'pattern', lines: { start: 2, end: 2 } });
+  });
+
+  it('should run a registered plugin for another vendor format', async () => {
+    const parser = new ParserPipeline();
+    parser.register({
+      stage: 'extraction',
+      name: 'bill',
+      extract: message => {
+        const match = message.text[0].match(/^BILL (\d+): (.+)$/);
+        return match ? [{ text: match[2], purchaseTotal: Number(match[1]), lines: { start: message.lineNumbers[0], end: message.lineNumbers[0] }, originalMessage: message.lines[0] }] : null;
+      }
+    });
+    parser.updateConfig({ stages: { extraction: ['bill', 'receipt', 'description'] } });
+
+    const result = await parser.parseFile('15/08/2025, 6:00 pm - Karim Store: BILL ৮০: dal');
+
+    expect(result.transactions[0]).toMatchObject({ item: 'dal', amount: 80, sender: 'Karim Store' });
+    expect(() => new ParserPipeline(undefined, { stages: { pairing: ['missing'] } }).parse(CHAT)).toThrow('No pairing plugin named "missing"');
+  });
+
+  it('should take the date order, item map and vendors from the config', () => {
+    const parser = new ParserPipeline(undefined, {
+      dateFormat: 'MM/DD/YYYY',
+      itemMap: { sabun: 'soap' },
+      senderFilter: ['Karim Store']
+    });
+
+    const result = parser.parse(`08/05/2025, 6:00 pm - Karim Store: কেনা ৪০ বিবরণ sabun
+08/05/2025, 6:05 pm - Monir: কেনা ৪০ বিবরণ chips`);
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({ item: 'soap', sender: 'Karim Store' });
+    expect(result.transactions[0].date.getMonth()).toBe(7);
+  });
+
+  it('should keep the part of a total no item price explains as an unallocated line', () => {
+    const result = new ParserPipeline().parse('15/08/2025, 5:33 pm - Monir: কেনা ১৫০ বিবরণ dim 100 alo');
+
+    expect(result.transactions.map(t => [t.item, t.amount])).toEqual([['eggs', 100], ['unallocated', 50]]);
+    expect(result.transactions[1]).toMatchObject({ flags: ['total_mismatch'], trace: { rule: 'unallocated', unpriced: ['potato'] } });
+    expect(result.transactions[0].flags).toBeUndefined();
+  });
+
+  it('should give a message the same IDs however much of the chat is parsed', () => {
+    const parser = new ParserPipeline();
+    const saved = '15/08/2025, 5:33 pm - Monir: কেনা ৪০ বিবরণ mojo';
+    const added = '15/08/2025, 5:33 pm - Monir: কেনা ২০ বিবরণ chips';
+
+    const [mojo] = parser.parse(saved).transactions;
+    const appended = parser.parse(`${saved}\n${added}`).transactions;
+    const [chips] = parser.parse(added).transactions;
+
+    expect(appended.map(t => t.id)).toEqual([mojo.id, chips.id]);
+    expect(chips.id).not.toBe(mojo.id);
+    expect(new Set(parser.parse(`${saved}\n${saved}`).transactions.map(t => t.id)).size).toBe(2);
+  });
+
+  it('should give the CSV converter the same items as the parser', () => {
+    const csv = new TextProcessor().processWhatsAppToCSV(CHAT);
+    const rows = csv.split('\n').slice(1).map(row => row.split(',').slice(1, 3).join(' '));
+
+    expect(rows).toEqual(new ParserPipeline().parse(CHAT).transactions.map(t => `${t.item} ${t.amount}`));
+  });
+});
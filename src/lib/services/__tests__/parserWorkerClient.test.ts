@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ParserWorkerClient } from '../parserWorkerClient';
+
+// One purchase per line, long enough to be parsed in several chunks
+const CHAT = Array.from({ length: 5000 }, (_, i) =>
+  `15/08/2025, 6:${String(i % 60).padStart(2, '0')} pm - Monir: কেনা ৪০ বিবরণ chips`
+).join('\n');
+
+// jsdom has no workers, so these run the same parse on the test's thread
+describe('ParserWorkerClient', () => {
+  it('should report progress and parse the whole chat', async () => {
+    const progress: number[] = [];
+    const result = await new ParserWorkerClient().parse(CHAT, {}, undefined, p => progress.push(p));
+
+    expect(result!.transactions).toHaveLength(5000);
+    expect(result!.summary.partial).toBeUndefined();
+    expect(progress).toEqual([40, 80, 100]);
+  });
+
+  it('should keep the messages parsed before a stop', async () => {
+    const client = new ParserWorkerClient();
+    const result = await client.parse(CHAT, {}, undefined, () => client.cancel(true));
+
+    expect(result!.summary).toMatchObject({ partial: true, totalLines: 2000 });
+    expect(result!.transactions).toHaveLength(2000);
+  });
+
+  it('should throw away a cancelled parse', async () => {
+    const client = new ParserWorkerClient();
+    const result = await client.parse(CHAT, {}, undefined, () => client.cancel());
+
+    expect(result).toBeNull();
+  });
+
+  it('should tell when there was nothing to stop', async () => {
+    const client = new ParserWorkerClient();
+    let stopped: boolean | undefined;
+    await client.parse(CHAT, {}, undefined, () => { stopped ??= client.cancel(true); });
+
+    expect(stopped).toBe(true);
+    expect(client.cancel(true)).toBe(false);
+  });
+});
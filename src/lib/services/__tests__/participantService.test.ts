@@ -0,0 +1,35 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { ParticipantService } from '../participantService';
+
+const CHAT = `15/08/2025, 5:33 pm - Monir: লেনদেন রেকর্ড
+কেনা ৪০
+15/08/2025, 6:00 pm - Munia Mustari: Dim dio
+15/08/2025, 6:05 pm - Munia Mustari: ar dudh
+15/08/2025, 8:05 pm - monir: milk 100`;
+
+describe('ParticipantService', () => {
+  let service: ParticipantService;
+
+  beforeEach(() => {
+    service = new ParticipantService();
+  });
+
+  it('should list chat participants with their message and receipt counts', () => {
+    const participants = service.listParticipants(CHAT);
+
+    expect(participants).toEqual([
+      { name: 'Monir', messageCount: 2, receiptCount: 1 },
+      { name: 'Munia Mustari', messageCount: 2, receiptCount: 0 }
+    ]);
+  });
+
+  it('should suggest participants that post receipts as vendors', () => {
+    expect(service.suggestVendors(service.listParticipants(CHAT))).toEqual(['Monir']);
+  });
+
+  it('should derive the same chat key for re-exports of a chat', () => {
+    expect(service.getChatKey('WhatsApp Chat with Monir.txt')).toBe('monir');
+    expect(service.getChatKey('WhatsApp Chat with Monir (1).txt')).toBe('monir');
+    expect(service.getChatKey('shop.txt')).toBe('shop');
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { QuantityParser } from '../quantityParser';
+import { ReliableParser } from '../reliableParser';
+
+describe('QuantityParser', () => {
+  let parser: QuantityParser;
+
+  beforeEach(() => {
+    parser = new QuantityParser();
+  });
+
+  it('should read units attached to the number', () => {
+    expect(parser.extractQuantities('chal 5kg 350')).toEqual({
+      text: 'chal 350',
+      quantities: [{ item: 'chal', quantity: 5, unit: 'kg' }]
+    });
+  });
+
+  it('should tie a leading Bengali quantity to the item after it', () => {
+    expect(parser.extractQuantities('2 হালি ডিম 100')).toEqual({
+      text: 'ডিম 100',
+      quantities: [{ item: 'ডিম', quantity: 2, unit: 'hali' }]
+    });
+  });
+
+  it('should leave prices alone', () => {
+    expect(parser.extractQuantities('milk 100 sabun 40').quantities).toEqual([]);
+  });
+});
+
+describe('ReliableParser quantities', () => {
+  const receipt = (description: string, amount: string) => `15/08/2025, 5:33 pm - Monir: লেনদেন রেকর্ড
+কেনা ${amount}
+বর্তমান বাকি ১৩,১০৫
+বিবরণ ${description}`;
+
+  it('should read a unit quantity before the price', async () => {
+    const result = await new ReliableParser().parseFile(receipt('sabun 5kg 350', '৩৫০'));
+
+    expect(result.transactions[0]).toMatchObject({ amount: 350, quantity: 5, unit: 'kg' });
+  });
+
+  it('should read a lone number on a single item as a count', async () => {
+    const result = await new ReliableParser().parseFile(receipt('dim 12', '১৫০'));
+
+    expect(result.transactions[0]).toMatchObject({ amount: 150, quantity: 12, unit: 'pcs' });
+  });
+
+  it('should read হালি quantities', async () => {
+    const result = await new ReliableParser().parseFile(receipt('2 হালি ডিম 100', '১০০'));
+
+    expect(result.transactions[0]).toMatchObject({ amount: 100, quantity: 2, unit: 'hali' });
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { ReceiptParser } from '../receiptParser';
+import { ReliableParser } from '../reliableParser';
+
+const RECEIPT = `লেনদেন রেকর্ড
+কাস্টমার মোবাইল নং 01784414331
+১৫ আগস্ট ২০২৫ , ০৫:৩৩ PM
+
+পূর্বের বাকি ১৩,০৬৫
+কেনা ৪০
+বর্তমান বাকি ১৩,১০৫
+
+বিবরণ cokr
+
+moriom tedars
+
+যেভাবে পেমেন্ট করতে পারবেন:
+
+আমার দোকানের সুপার QR কোডে আপনার বিকাশ, রকেট বা ব্যাংক অ্যাপ থেকে স্ক্যান করে পেমেন্ট করতে পারবেন।
+
+
+লেনদেনের বিস্তারিত লিংকে দেখুন:
+https://tally.pe/uLWzR`;
+
+describe('ReceiptParser', () => {
+  let parser: ReceiptParser;
+
+  beforeEach(() => {
+    parser = new ReceiptParser();
+  });
+
+  describe('parseReceipt', () => {
+    it('should extract every field of a shop receipt', () => {
+      const messageDate = new Date(2025, 7, 15, 17, 33);
+      const receipt = parser.parseReceipt(RECEIPT, messageDate, 'Monir');
+
+      expect(receipt).not.toBeNull();
+      expect(receipt).toMatchObject({
+        sender: 'Monir',
+        customerMobile: '01784414331',
+        previousBalance: 13065,
+        purchase: 40,
+        payment: 0,
+        currentBalance: 13105,
+        description: 'cokr',
+        shopName: 'moriom tedars',
+        link: 'https://tally.pe/uLWzR'
+      });
+      expect(receipt!.receiptDate).toEqual(new Date(2025, 7, 15, 17, 33));
+      expect(receipt!.messageDate).toEqual(messageDate);
+    });
+
+    it('should handle payments, credit balances and multi-line descriptions', () => {
+      const message = `লেনদেন রেকর্ড
+কাস্টমার মোবাইল নং 01784414331
+১৯ জানুয়ারি ২০২৫ , ১০:২১ PM
+
+পূর্বের জমা ৫০৮
+কেনা ১০৫
+পরিশোধ ২০
+বর্তমান জমা ৪২৩
+
+বিবরণ Coke 40
+Salt 40
+chips 20
+
+moriom tedars
+
+টালিখাতা অ্যাপে নতুন সুবিধা-`;
+
+      const receipt = parser.parseReceipt(message, new Date(2025, 0, 19, 22, 21), 'Monir');
+
+      expect(receipt).toMatchObject({
+        previousBalance: -508,
+        purchase: 105,
+        payment: 20,
+        currentBalance: -423,
+        description: 'Coke 40\nSalt 40\nchips 20',
+        shopName: 'moriom tedars'
+      });
+      expect(receipt!.receiptDate).toEqual(new Date(2025, 0, 19, 22, 21));
+    });
+
+    it('should return null for free-form messages', () => {
+      expect(parser.parseReceipt('alo 140', new Date(), 'Monir')).toBeNull();
+    });
+  });
+
+  describe('extractReceipts', () => {
+    it('should find receipts in a chat export and skip other messages', () => {
+      const content = `15/08/2025, 5:33 pm - Monir: ${RECEIPT}
+15/08/2025, 6:00 pm - Munia Mustari: Dim dio
+15/08/2025, 8:05 pm - Monir: milk 100`;
+
+      const receipts = parser.extractReceipts(content);
+
+      expect(receipts).toHaveLength(1);
+      expect(receipts[0].messageDate).toEqual(new Date(2025, 7, 15, 17, 33));
+      expect(receipts[0].link).toBe('https://tally.pe/uLWzR');
+    });
+
+    it('should only keep receipts posted by the given vendors', () => {
+      const content = `15/08/2025, 5:33 pm - Monir: ${RECEIPT}
+15/08/2025, 6:00 pm - Munia Mustari: ${RECEIPT}`;
+
+      const receipts = parser.extractReceipts(content, { vendors: ['munia mustari'] });
+
+      expect(receipts).toHaveLength(1);
+      expect(receipts[0].sender).toBe('Munia Mustari');
+    });
+  });
+
+  describe('ReliableParser integration', () => {
+    it('should create transactions from structured receipts', async () => {
+      const content = `15/08/2025, 5:33 pm - Monir: ${RECEIPT}
+15/08/2025, 8:05 pm - Monir: alo 140`;
+
+      const result = await new ReliableParser().parseFile(content);
+
+      expect(result.receipts).toHaveLength(1);
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        item: 'cokr',
+        amount: 40,
+        kind: 'purchase'
+      });
+    });
+
+    it('should record the পরিশোধ on a receipt as a payment entry', async () => {
+      const content = `15/08/2025, 5:33 pm - Monir: ${RECEIPT.replace('কেনা ৪০', 'কেনা ৪০\nপরিশোধ ৫০০')}`;
+
+      const result = await new ReliableParser().parseFile(content);
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[1]).toMatchObject({
+        item: 'payment',
+        amount: 500,
+        kind: 'payment'
+      });
+    });
+
+    it('should only parse messages from the chosen vendors', async () => {
+      const content = `15/08/2025, 5:33 pm - Monir: ${RECEIPT}
+15/08/2025, 6:00 pm - Karim Store: ${RECEIPT.replace('cokr', 'sabun')}`;
+
+      const result = await new ReliableParser().parseFile(content, { vendors: ['Karim Store'] });
+
+      expect(result.receipts).toHaveLength(1);
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        item: 'sabun',
+        sender: 'Karim Store'
+      });
+    });
+  });
+});
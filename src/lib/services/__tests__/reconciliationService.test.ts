@@ -0,0 +1,85 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { ReconciliationService } from '../reconciliationService';
+import type { ShopReceipt } from '../../types';
+
+function receipt(day: number, previousBalance: number, purchase: number, currentBalance: number, payment = 0): ShopReceipt {
+  return {
+    messageDate: new Date(2025, 7, day, 20, 0),
+    receiptDate: new Date(2025, 7, day, 20, 0),
+    sender: 'Monir',
+    customerMobile: '01784414331',
+    previousBalance,
+    purchase,
+    payment,
+    currentBalance,
+    description: 'milk',
+    shopName: 'moriom tedars',
+    originalMessage: 'লেনদেন রেকর্ড'
+  };
+}
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+
+  beforeEach(() => {
+    service = new ReconciliationService();
+  });
+
+  it('should accept a consistent running balance', () => {
+    const receipts = [
+      receipt(15, 13065, 40, 13105),
+      receipt(16, 13105, 40, 13145),
+      receipt(17, 13145, 0, 13045, 100)
+    ];
+
+    expect(service.reconcile(receipts)).toEqual([]);
+  });
+
+  it('should report a gap when the opening balance is higher than the last closing balance', () => {
+    const receipts = [
+      receipt(15, 13105, 40, 13145),
+      receipt(16, 13195, 50, 13245)
+    ];
+
+    const result = service.reconcile(receipts);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      reason: 'missing_receipt',
+      expectedTotal: 13145,
+      actualTotal: 13195
+    });
+  });
+
+  it('should report a balance jump when the opening balance drops unexpectedly', () => {
+    const receipts = [
+      receipt(15, 13105, 40, 13145),
+      receipt(16, 13000, 50, 13050)
+    ];
+
+    const result = service.reconcile(receipts);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].reason).toBe('balance_jump');
+  });
+
+  it('should report arithmetic errors within a receipt', () => {
+    const result = service.reconcile([receipt(15, 13065, 40, 13115)]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      reason: 'arithmetic_error',
+      expectedTotal: 13105,
+      actualTotal: 13115
+    });
+  });
+
+  it('should order receipts by receipt date before comparing', () => {
+    const receipts = [
+      receipt(16, 13105, 40, 13145),
+      receipt(15, 13065, 40, 13105)
+    ];
+
+    expect(service.reconcile(receipts)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ReliableParser } from '../reliableParser';
+import { TextProcessor } from '../textProcessor';
+import { PARSER_VERSION } from '../../utils/helpers';
+
+const CHAT = `15/08/2025, 5:33 pm - Monir: লেনদেন রেকর্ড
+কেনা ১৫০
+পরিশোধ ৫০০
+বর্তমান বাকি ১৩,১০৫
+বিবরণ sabun 50 cokr 100
+15/08/2025, 6:00 pm - Monir: কেনা ৪০ বিবরণ chips`;
+
+describe('ReliableParser parse trace', () => {
+  it('should record the rule, version and source lines of receipt items', async () => {
+    const result = await new ReliableParser().parseFile(CHAT);
+    const sabun = result.transactions.find(t => t.item === 'sabun')!;
+
+    expect(sabun.trace).toMatchObject({
+      parserVersion: PARSER_VERSION,
+      rule: 'paired',
+      lines: { start: 1, end: 5 },
+      tokens: ['sabun', '50', 'cokr', '100']
+    });
+    expect(sabun.trace!.decisions).toContain('sabun paired with 50');
+  });
+
+  it('should trace receipt payments', async () => {
+    const result = await new ReliableParser().parseFile(CHAT);
+    const payment = result.transactions.find(t => t.kind === 'payment')!;
+
+    expect(payment.trace).toMatchObject({ rule: 'receipt_payment', lines: { start: 1, end: 5 } });
+  });
+
+  it('should explain a single item priced with কেনা', async () => {
+    const result = await new ReliableParser().parseFile(CHAT);
+    const chips = result.transactions.find(t => t.item === 'chips')!;
+
+    expect(chips.amount).toBe(40);
+    expect(chips.trace).toMatchObject({ rule: 'purchase_total', lines: { start: 6, end: 6 } });
+  });
+});
+
+describe('TextProcessor parse trace', () => {
+  it('should give every CSV row the trace of its message', () => {
+    const { csv, traces } = new TextProcessor().processWhatsApp(CHAT);
+    const rows = csv.split('\n');
+
+    expect(traces).toHaveLength(rows.length);
+    expect(traces[0]).toBeNull();
+    expect(traces[1]).toMatchObject({ rule: 'paired', lines: { start: 1, end: 5 } });
+    expect(traces[rows.length - 1]).toMatchObject({ rule: 'purchase_total', lines: { start: 6, end: 6 } });
+  });
+});
+
+describe('ReliableParser transaction IDs', () => {
+  const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+  it('should give the same UUIDs when an overlapping export is imported again', async () => {
+    const first = await new ReliableParser().parseFile(CHAT);
+    const overlapping = await new ReliableParser().parseFile(`14/08/2025, 9:10 am - Monir: কেনা ৩০ বিবরণ dim\n${CHAT}`);
+
+    expect(first.transactions.every(t => UUID.test(t.id))).toBe(true);
+    expect(overlapping.transactions.slice(1).map(t => t.id)).toEqual(first.transactions.map(t => t.id));
+  });
+
+  it('should tell apart identical messages sent in the same minute', async () => {
+    const result = await new ReliableParser().parseFile(
+      '05/01/2025, 8:55 pm - Monir: কেনা ৪০ বিবরণ mojo\n05/01/2025, 8:55 pm - Monir: কেনা ৪০ বিবরণ mojo'
+    );
+
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0].id).not.toBe(result.transactions[1].id);
+  });
+});
@@ -0,0 +1,92 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { TransactionManager } from '../transactionManager';
+import type { Transaction } from '../../types';
+
+// Saved transactions must be dated within a year of today
+const evening = new Date(new Date().setHours(20, 55, 0, 0));
+const minutesLater = (minutes: number) => new Date(evening.getTime() + minutes * 60 * 1000);
+
+const mojo = (id: string, date: Date, originalMessage = 'mojo 40'): Transaction => ({
+  id,
+  date,
+  item: 'mojo',
+  amount: 40,
+  sender: 'Monir',
+  kind: 'purchase',
+  originalMessage,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('TransactionManager duplicates', () => {
+  let manager: TransactionManager;
+
+  beforeEach(() => {
+    manager = new TransactionManager();
+  });
+
+  it('should keep a repeat purchase that was not saved before', async () => {
+    await manager.addTransactions([mojo('saved', evening)]);
+
+    const held = await manager.addTransactions([
+      mojo('first', evening),
+      mojo('second', evening)
+    ]);
+
+    expect(held).toHaveLength(1);
+    expect(held[0]).toMatchObject({ existing: { id: 'saved' }, similarity: 1, reason: 'same_time' });
+    expect(manager.getTransactions()).toHaveLength(2);
+  });
+
+  it('should match similar messages further apart and follow the tolerances', async () => {
+    await manager.addTransactions([mojo('saved', evening)]);
+    const later = mojo('later', minutesLater(12 * 60), 'Mojo  40');
+
+    expect(manager.findDuplicates([later])).toEqual([
+      expect.objectContaining({ reason: 'similar_message', similarity: 1 })
+    ]);
+
+    manager.setDuplicateTolerances({ timeWindowMinutes: 30, messageWindowHours: 6, messageSimilarity: 0.9 });
+    expect(manager.findDuplicates([later])).toEqual([]);
+  });
+
+  it('should match a transaction read from the same message line by its ID', async () => {
+    await manager.addTransactions([mojo('same-line', evening)]);
+
+    const held = await manager.addTransactions([{ ...mojo('same-line', minutesLater(90)), amount: 45 }]);
+
+    expect(held).toEqual([expect.objectContaining({ reason: 'same_fingerprint', existing: expect.objectContaining({ id: 'same-line' }) })]);
+  });
+
+  it('should save purchases from a vendor exported as a phone number', async () => {
+    await manager.addTransactions([{ ...mojo('phone', evening), sender: '+880 1712-345678' }, { ...mojo('digits', evening), sender: 'Store 2 Jr.' }]);
+
+    expect(manager.getTransactions().map(t => t.sender)).toEqual(['+880 1712-345678', 'Store 2 Jr.']);
+  });
+
+  it('should add held back duplicates when asked to keep them', async () => {
+    await manager.addTransactions([mojo('saved', evening)]);
+
+    const held = await manager.addTransactions([mojo('again', minutesLater(5))], { skipDuplicates: false });
+
+    expect(held).toEqual([]);
+    expect(manager.getTransactions()).toHaveLength(2);
+    expect(new Set(manager.getTransactions().map(t => t.id)).size).toBe(2);
+  });
+});
+
+describe('TransactionManager unallocated amounts', () => {
+  it('should assign the remainder to a priced item and a new one', async () => {
+    const manager = new TransactionManager();
+    await manager.addTransactions([
+      { ...mojo('priced', evening), item: 'egg', amount: 100 },
+      { ...mojo('rest', evening), item: 'unallocated', amount: 50, flags: ['total_mismatch'] }
+    ], { skipDuplicates: false });
+
+    await manager.allocateRemainder('rest', [{ item: 'egg', amount: 10 }, { item: 'potato', amount: 30 }]);
+
+    expect(manager.getTransactions().map(t => [t.item, t.amount])).toEqual([['egg', 110], ['unallocated', 10], ['potato', 30]]);
+    await expect(manager.allocateRemainder('rest', [{ item: 'salt', amount: 20 }])).rejects.toThrow('more than the unallocated amount');
+    await expect(manager.allocateRemainder('priced', [{ item: 'salt', amount: 5 }])).rejects.toThrow('no unallocated amount');
+  });
+});
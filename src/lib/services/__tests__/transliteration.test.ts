@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { itemMatchesSearch, phoneticKey } from '../../utils/transliteration';
+import { TransactionManager } from '../transactionManager';
+import { CategoryService } from '../categoryService';
+import type { Transaction } from '../../types';
+
+function createTransaction(id: string, item: string, overrides: Partial<Transaction> = {}): Transaction {
+  const date = new Date();
+  return { id, date, sender: 'Monir', item, amount: 40, createdAt: date, updatedAt: date, ...overrides };
+}
+
+describe('Transliteration', () => {
+  it('should give Bengali and romanised spellings of an item the same key', () => {
+    expect(phoneticKey('ডিম')).toBe(phoneticKey('Dim'));
+    expect(phoneticKey('পিঁয়াজ')).toBe(phoneticKey('piaz'));
+    expect(phoneticKey('রসুন')).toBe(phoneticKey('roshun'));
+    expect(phoneticKey('কোক')).toBe(phoneticKey('Coke!'));
+    expect(phoneticKey('শ্যাম্পু')).toBe(phoneticKey('shampoo'));
+    expect(phoneticKey('ডাল')).not.toBe(phoneticKey('ডিম'));
+  });
+
+  it('should find items by search in either script', () => {
+    expect(itemMatchesSearch('ডিম', 'dim')).toBe(true);
+    expect(itemMatchesSearch('rosun', 'রসুন')).toBe(true);
+    expect(itemMatchesSearch('chips', 'dim')).toBe(false);
+  });
+
+  it('should group, search and deduplicate script variants as one item', async () => {
+    const manager = new TransactionManager();
+    await manager.addTransactions([
+      createTransaction('a', 'রসুন'),
+      createTransaction('b', 'roshun', { amount: 60 })
+    ]);
+
+    expect(new Set(manager.getGroupedTransactions().map(t => t.item)).size).toBe(1);
+    expect(manager.searchTransactions('garlic').length).toBe(2);
+
+    const [duplicate] = manager.findDuplicates([createTransaction('c', 'rosun', { amount: 60 })]);
+    expect(duplicate?.existing.id).toBe('b');
+  });
+
+  it('should suggest the category of a script variant', async () => {
+    const categories = new CategoryService();
+    const category = await categories.createCategory({ name: 'Spices' });
+    await categories.assignCategoryToItem('রসুন', category.id);
+
+    expect(await categories.suggestCategoryForItem('rashun')).toEqual(category);
+  });
+});
@@ -0,0 +1,160 @@
+import type { AmountBounds, AmountPlausibilitySettings, QuantityUnit, Transaction } from '../types';
+import { DEFAULT_AMOUNT_PLAUSIBILITY, isPurchase, isUnallocated, toBaseQuantity, withoutFlag } from '../utils/helpers';
+import { ItemAliasService } from './itemAliasService';
+
+// Log prices of an item's saved purchases by unit ('' for whole amounts) and the category they were filed under
+interface ItemHistory {
+  prices: Map<string, number[]>;
+  categoryId?: string;
+}
+
+// What a purchase is judged by: its price per kg, litre or piece when the quantity is known
+interface Price {
+  value: number;
+  unit?: QuantityUnit;
+}
+
+export class AmountPlausibilityService {
+  private itemAliases: ItemAliasService;
+  private settings: AmountPlausibilitySettings;
+  private items = new Map<string, ItemHistory>();
+  private categories = new Map<string, number[]>();
+
+  constructor(
+    itemAliases: ItemAliasService = new ItemAliasService(),
+    settings: AmountPlausibilitySettings = DEFAULT_AMOUNT_PLAUSIBILITY
+  ) {
+    this.itemAliases = itemAliases;
+    this.settings = { ...settings };
+  }
+
+  getSettings(): AmountPlausibilitySettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Saved purchases are the history amounts are judged by. Outliers the user
+   * hasn't confirmed are left out, so one wrong amount doesn't widen the bounds;
+   * confirming one takes its flag away, and it is learned from then on.
+   */
+  setSavedTransactions(transactions: Transaction[]): void {
+    this.items.clear();
+    this.categories.clear();
+    for (const transaction of transactions) {
+      if (transaction.flags?.includes('amount_outlier')) continue;
+      this.learn(transaction);
+    }
+  }
+
+  /**
+   * Usual amounts of an item: the median of its saved purchases, give or take
+   * a few median absolute deviations. With a unit, only purchases with a
+   * quantity count and their prices per unit are compared, so 25 kg of rice is
+   * judged by the kg price of 5 kg bags. Items with too few purchases borrow
+   * those of their category; null when neither has enough history.
+   */
+  getBounds(item: string, categoryId?: string, unit?: QuantityUnit): AmountBounds | null {
+    const history = this.items.get(this.getKey(item));
+    const prices = history?.prices.get(unit ?? '');
+    if (prices && prices.length >= this.settings.minSamples) {
+      return this.toBounds(prices, 'item', unit);
+    }
+    const category = this.categories.get(`${categoryId ?? history?.categoryId ?? ''}|${unit ?? ''}`);
+    if (category && category.length >= this.settings.minSamples) {
+      return this.toBounds(category, 'category', unit);
+    }
+    return null;
+  }
+
+  isOutlier(transaction: Transaction): boolean {
+    return this.getOutlierBounds(transaction) !== null;
+  }
+
+  /**
+   * The transaction with amount_outlier added or taken away. A flagged amount's
+   * trace says which bounds it fell outside.
+   */
+  flag(transaction: Transaction): Transaction {
+    const flags = withoutFlag(transaction.flags, 'amount_outlier');
+    const bounds = this.getOutlierBounds(transaction);
+    if (!bounds) return { ...transaction, flags };
+
+    const price = this.getPrice(transaction)!;
+    const perUnit = bounds.unit ? ` per ${bounds.unit}` : '';
+    const value = Math.round(price.value * 100) / 100;
+    const basis = bounds.basis === 'item' ? 'purchases' : 'purchases in its category';
+    const decision = `${value}${perUnit} is outside the usual ${bounds.low}–${bounds.high}${perUnit} for ${transaction.item} (median ${bounds.median} of ${bounds.samples} ${basis})`;
+    return {
+      ...transaction,
+      flags: [...(flags ?? []), 'amount_outlier'],
+      trace: transaction.trace && { ...transaction.trace, decisions: [...transaction.trace.decisions, decision] }
+    };
+  }
+
+  /**
+   * Bounds the price falls outside, null when it is usual or can't be judged.
+   * A price close to one already saved for the item is usual however far out
+   * it is, so a kept outlier (the yearly rice sack) isn't flagged again.
+   */
+  private getOutlierBounds(transaction: Transaction): AmountBounds | null {
+    const price = this.getPrice(transaction);
+    if (!price) return null;
+    const bounds = this.getBounds(transaction.item, transaction.categoryId, price.unit);
+    if (!bounds || (price.value >= bounds.low && price.value <= bounds.high)) return null;
+
+    const value = Math.log(price.value);
+    const saved = this.items.get(this.getKey(transaction.item))?.prices.get(price.unit ?? '') ?? [];
+    return saved.some(other => Math.abs(other - value) <= this.settings.minSpread) ? null : bounds;
+  }
+
+  private learn(transaction: Transaction): void {
+    const price = this.getPrice(transaction);
+    const key = this.getKey(transaction.item);
+    if (!price || !key) return;
+
+    const value = Math.log(price.value);
+    const history = this.items.get(key) ?? { prices: new Map<string, number[]>() };
+    history.prices.set(price.unit ?? '', [...(history.prices.get(price.unit ?? '') ?? []), value]);
+    history.categoryId = transaction.categoryId ?? history.categoryId;
+    this.items.set(key, history);
+
+    if (transaction.categoryId) {
+      const category = `${transaction.categoryId}|${price.unit ?? ''}`;
+      this.categories.set(category, [...(this.categories.get(category) ?? []), value]);
+    }
+  }
+
+  // Price per kg, litre or piece when the quantity is known; a count without a unit is pieces
+  private getPrice(transaction: Transaction): Price | null {
+    if (!isPurchase(transaction) || isUnallocated(transaction) || !(transaction.amount > 0)) return null;
+    if (!transaction.quantity || transaction.quantity <= 0) return { value: transaction.amount };
+
+    const { quantity, unit } = toBaseQuantity(transaction.quantity, transaction.unit ?? 'pcs');
+    return { value: transaction.amount / quantity, unit };
+  }
+
+  // Prices rise and fall by ratios, so the median and spread are taken of log prices
+  private toBounds(prices: number[], basis: AmountBounds['basis'], unit?: QuantityUnit): AmountBounds {
+    const center = median(prices);
+    const spread = Math.max(1.4826 * median(prices.map(price => Math.abs(price - center))), this.settings.minSpread);
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      median: round(Math.exp(center)),
+      low: round(Math.exp(center - this.settings.tolerance * spread)),
+      high: round(Math.exp(center + this.settings.tolerance * spread)),
+      samples: prices.length,
+      basis,
+      ...(unit ? { unit } : {})
+    };
+  }
+
+  private getKey(item: string): string {
+    return (this.itemAliases.resolve(item) ?? item).trim().toLowerCase();
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -5,30 +5,50 @@ import type {
   MonthlyTotal,
   ChartData,
   ChartOptions,
-  FilterConfig 
+  FilterConfig,
+  BillingCycleResolver
 } from '../types';
-import { groupBy, calculatePercentage, getMonthName, generateColors, getMonthPeriodFor15thCycle } from '../utils/helpers';
+import {
+  groupBy,
+  calculatePercentage,
+  getMonthName,
+  generateColors,
+  DEFAULT_BILLING_CYCLE,
+  getBillingCyclePeriod,
+  getPaidAmount,
+  getSpentAmount,
+  getTransactionKind,
+  isPurchase
+} from '../utils/helpers';
 
 export class AnalyticsEngine {
   private transactions: Transaction[] = [];
+  private billingCycleFor: BillingCycleResolver;
 
-  constructor(transactions: Transaction[] = []) {
+  constructor(transactions: Transaction[] = [], billingCycleFor: BillingCycleResolver = () => DEFAULT_BILLING_CYCLE) {
     this.transactions = transactions;
+    this.billingCycleFor = billingCycleFor;
   }
 
   updateTransactions(transactions: Transaction[]): void {
     this.transactions = transactions;
   }
 
+  // Monthly figures follow each vendor's billing cycle
+  setBillingCycleResolver(billingCycleFor: BillingCycleResolver): void {
+    this.billingCycleFor = billingCycleFor;
+  }
+
   // Main analytics data generation
   generateAnalytics(filters?: FilterConfig): AnalyticsData {
     const filteredTransactions = this.applyFilters(this.transactions, filters);
 
     return {
-      itemDistribution: this.calculateItemDistribution(filteredTransactions),
+      itemDistribution: this.calculateItemDistribution(filteredTransactions.filter(isPurchase)),
       monthlySpending: this.calculateMonthlySpending(filteredTransactions),
       totalTransactions: filteredTransactions.length,
       totalAmount: this.calculateTotalAmount(filteredTransactions),
+      totalPaid: filteredTransactions.reduce((sum, t) => sum + getPaidAmount(t), 0),
       averageTransaction: this.calculateAverageTransaction(filteredTransactions)
     };
   }
@@ -56,23 +76,25 @@ export class AnalyticsEngine {
 
   // Monthly spending analysis
   private calculateMonthlySpending(transactions: Transaction[]): MonthlyTotal[] {
-    const monthMap = new Map<string, { total: number; transactionCount: number; year: number; monthIndex: number }>();
+    const monthMap = new Map<string, { total: number; totalPaid: number; transactionCount: number; year: number; monthIndex: number }>();
 
     transactions.forEach(transaction => {
       const date = transaction.date;
-      const monthPeriod = getMonthPeriodFor15thCycle(date);
+      const monthPeriod = getBillingCyclePeriod(date, this.billingCycleFor(transaction.sender));
       const monthKey = `${monthPeriod.year}-${monthPeriod.month}`;
       
       const existing = monthMap.get(monthKey) || { 
         total: 0, 
+        totalPaid: 0,
         transactionCount: 0, 
         year: monthPeriod.year,
         monthIndex: monthPeriod.month - 1 // Convert to 0-based index for getMonthName
       };
       
       monthMap.set(monthKey, {
-        total: existing.total + transaction.amount,
-        transactionCount: existing.transactionCount + 1,
+        total: existing.total + getSpentAmount(transaction),
+        totalPaid: existing.totalPaid + getPaidAmount(transaction),
+        transactionCount: existing.transactionCount + (isPurchase(transaction) ? 1 : 0),
         year: monthPeriod.year,
         monthIndex: monthPeriod.month - 1
       });
@@ -84,6 +106,7 @@ export class AnalyticsEngine {
           month: getMonthName(data.monthIndex),
           year: data.year,
           total: data.total,
+          totalPaid: data.totalPaid,
           transactionCount: data.transactionCount
         };
       })
@@ -327,7 +350,7 @@ export class AnalyticsEngine {
     this.transactions.forEach(transaction => {
       const existing = senderMap.get(transaction.sender) || { total: 0, count: 0 };
       senderMap.set(transaction.sender, {
-        total: existing.total + transaction.amount,
+        total: existing.total + getSpentAmount(transaction),
         count: existing.count + 1
       });
     });
@@ -356,8 +379,8 @@ export class AnalyticsEngine {
       t.date >= previousMonth && t.date < currentMonth
     );
 
-    const currentMonthTotal = currentMonthTransactions.reduce((sum, t) => sum + t.amount, 0);
-    const previousMonthTotal = previousMonthTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const currentMonthTotal = currentMonthTransactions.reduce((sum, t) => sum + getSpentAmount(t), 0);
+    const previousMonthTotal = previousMonthTransactions.reduce((sum, t) => sum + getSpentAmount(t), 0);
 
     let percentageChange = 0;
     let trend: 'up' | 'down' | 'stable' = 'stable';
@@ -385,7 +408,7 @@ export class AnalyticsEngine {
   } {
     const itemStats = new Map<string, { count: number; total: number; prices: number[] }>();
 
-    this.transactions.forEach(transaction => {
+    this.transactions.filter(isPurchase).forEach(transaction => {
       const existing = itemStats.get(transaction.item) || { count: 0, total: 0, prices: [] };
       itemStats.set(transaction.item, {
         count: existing.count + 1,
@@ -415,13 +438,15 @@ export class AnalyticsEngine {
   }
 
   // Utility methods
+  // Net spending: payments settle the balance and are not counted
   private calculateTotalAmount(transactions: Transaction[]): number {
-    return transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+    return transactions.reduce((sum, transaction) => sum + getSpentAmount(transaction), 0);
   }
 
   private calculateAverageTransaction(transactions: Transaction[]): number {
-    if (transactions.length === 0) return 0;
-    return this.calculateTotalAmount(transactions) / transactions.length;
+    const purchaseCount = transactions.filter(isPurchase).length;
+    if (purchaseCount === 0) return 0;
+    return this.calculateTotalAmount(transactions) / purchaseCount;
   }
 
   private applyFilters(transactions: Transaction[], filters?: FilterConfig): Transaction[] {
@@ -453,6 +478,10 @@ export class AnalyticsEngine {
       );
     }
 
+    if (filters.kind) {
+      result = result.filter(t => getTransactionKind(t) === filters.kind);
+    }
+
     return result;
   }
 
@@ -1,10 +1,25 @@
-import type { Transaction, Category, CategoryAnalytics, TrendData, ComparisonData, AnalyticsInsight } from '../types';
-import { getMonthPeriodFor15thCycle } from '../utils/helpers';
-
+import type {
+  Transaction,
+  Category,
+  CategoryAnalytics,
+  TrendData,
+  ComparisonData,
+  AnalyticsInsight,
+  BillingCycleResolver
+} from '../types';
+import { DEFAULT_BILLING_CYCLE, getBillingCyclePeriod, isPurchase } from '../utils/helpers';
+
+// Analytics describe spending, so payments, refunds and returns are left out
 export class AnalyticsService {
+  private billingCycleFor: BillingCycleResolver;
+
+  constructor(billingCycleFor: BillingCycleResolver = () => DEFAULT_BILLING_CYCLE) {
+    this.billingCycleFor = billingCycleFor;
+  }
   
   // Calculate category-based analytics
   calculateCategoryAnalytics(transactions: Transaction[], categories: Category[]): CategoryAnalytics {
+    transactions = transactions.filter(isPurchase);
     const categorizedTransactions = transactions.filter(t => t.categoryId);
     const uncategorizedTransactions = transactions.filter(t => !t.categoryId);
     
@@ -60,8 +75,9 @@ export class AnalyticsService {
     };
   }
 
-  // Calculate trend analytics using 15th-to-15th periods for months
+  // Calculate trend analytics; months follow each vendor's billing cycle
   calculateTrendAnalytics(transactions: Transaction[], groupBy: 'day' | 'week' | 'month' = 'month'): TrendData[] {
+    transactions = transactions.filter(isPurchase);
     const trends = new Map<string, {
       date: Date;
       totalAmount: number;
@@ -86,10 +102,10 @@ export class AnalyticsService {
           break;
         case 'month':
         default:
-          // Use 15th-to-15th periods for monthly calculations
-          const monthPeriod = getMonthPeriodFor15thCycle(transaction.date);
+          const monthPeriod = getBillingCyclePeriod(transaction.date, this.billingCycleFor(transaction.sender));
           periodKey = `${monthPeriod.year}-${String(monthPeriod.month).padStart(2, '0')}`;
-          periodDate = monthPeriod.startDate;
+          // Vendors may bill on different days, so name the period by the month the cycle ends in
+          periodDate = new Date(monthPeriod.year, monthPeriod.month - 1, 1);
           break;
       }
 
@@ -127,6 +143,7 @@ export class AnalyticsService {
 
   // Calculate comparative analytics
   calculateComparativeAnalytics(transactions: Transaction[], compareBy: 'category' | 'item' = 'category', categories: Category[] = []): ComparisonData[] {
+    transactions = transactions.filter(isPurchase);
     const comparisons = new Map<string, number>();
 
     transactions.forEach(transaction => {
@@ -159,6 +176,7 @@ export class AnalyticsService {
 
   // Generate insights
   generateInsights(transactions: Transaction[], categories: Category[] = []): AnalyticsInsight[] {
+    transactions = transactions.filter(isPurchase);
     const insights: AnalyticsInsight[] = [];
 
     if (transactions.length === 0) {
@@ -247,6 +265,7 @@ export class AnalyticsService {
     weekly: number;
     monthly: number;
   } {
+    transactions = transactions.filter(isPurchase);
     if (transactions.length === 0) {
       return { daily: 0, weekly: 0, monthly: 0 };
     }
@@ -273,7 +292,7 @@ export class AnalyticsService {
   }[] {
     const categoryStats = new Map<string, { totalAmount: number; count: number }>();
 
-    transactions.forEach(transaction => {
+    transactions.filter(isPurchase).forEach(transaction => {
       if (transaction.categoryId) {
         const stats = categoryStats.get(transaction.categoryId) || { totalAmount: 0, count: 0 };
         stats.totalAmount += transaction.amount;
@@ -0,0 +1,178 @@
+import { convertBengaliDigits } from '../utils/helpers';
+
+// Bengali has a separate word for every number up to 99, with a few common spellings
+const NUMBER_WORDS: Record<string, number> = {
+  'শূন্য': 0,
+  'এক': 1, 'দুই': 2, 'দু': 2, 'তিন': 3, 'চার': 4, 'পাঁচ': 5, 'ছয়': 6, 'ছ': 6, 'সাত': 7, 'আট': 8, 'নয়': 9, 'দশ': 10,
+  'এগারো': 11, 'বারো': 12, 'তেরো': 13, 'চৌদ্দ': 14, 'চোদ্দ': 14, 'পনেরো': 15, 'ষোলো': 16, 'ষোল': 16,
+  'সতেরো': 17, 'আঠারো': 18, 'উনিশ': 19, 'বিশ': 20, 'কুড়ি': 20,
+  'একুশ': 21, 'বাইশ': 22, 'তেইশ': 23, 'চব্বিশ': 24, 'পঁচিশ': 25, 'ছাব্বিশ': 26, 'সাতাশ': 27, 'আটাশ': 28,
+  'উনত্রিশ': 29, 'ত্রিশ': 30, 'তিরিশ': 30,
+  'একত্রিশ': 31, 'বত্রিশ': 32, 'তেত্রিশ': 33, 'চৌত্রিশ': 34, 'পঁয়ত্রিশ': 35, 'ছত্রিশ': 36, 'সাঁইত্রিশ': 37,
+  'আটত্রিশ': 38, 'উনচল্লিশ': 39, 'চল্লিশ': 40,
+  'একচল্লিশ': 41, 'বিয়াল্লিশ': 42, 'তেতাল্লিশ': 43, 'চুয়াল্লিশ': 44, 'পঁয়তাল্লিশ': 45, 'ছেচল্লিশ': 46,
+  'সাতচল্লিশ': 47, 'আটচল্লিশ': 48, 'উনপঞ্চাশ': 49, 'পঞ্চাশ': 50,
+  'একান্ন': 51, 'বাহান্ন': 52, 'তিপ্পান্ন': 53, 'চুয়ান্ন': 54, 'পঞ্চান্ন': 55, 'ছাপ্পান্ন': 56, 'সাতান্ন': 57,
+  'আটান্ন': 58, 'উনষাট': 59, 'ষাট': 60,
+  'একষট্টি': 61, 'বাষট্টি': 62, 'তেষট্টি': 63, 'চৌষট্টি': 64, 'পঁয়ষট্টি': 65, 'ছেষট্টি': 66, 'সাতষট্টি': 67,
+  'আটষট্টি': 68, 'উনসত্তর': 69, 'সত্তর': 70,
+  'একাত্তর': 71, 'বাহাত্তর': 72, 'তিয়াত্তর': 73, 'চুয়াত্তর': 74, 'পঁচাত্তর': 75, 'ছিয়াত্তর': 76, 'সাতাত্তর': 77,
+  'আটাত্তর': 78, 'উনআশি': 79, 'আশি': 80,
+  'একাশি': 81, 'বিরাশি': 82, 'তিরাশি': 83, 'চুরাশি': 84, 'পঁচাশি': 85, 'ছিয়াশি': 86, 'সাতাশি': 87, 'আটাশি': 88,
+  'উননব্বই': 89, 'নব্বই': 90,
+  'একানব্বই': 91, 'বিরানব্বই': 92, 'তিরানব্বই': 93, 'চুরানব্বই': 94, 'পঁচানব্বই': 95, 'ছিয়ানব্বই': 96,
+  'সাতানব্বই': 97, 'আটানব্বই': 98, 'নিরানব্বই': 99,
+  // দেড়শ = 150, আড়াই হাজার = 2500
+  'দেড়': 1.5, 'আড়াই': 2.5
+};
+
+const HUNDRED_WORDS = ['শত', 'শো', 'শ'];
+
+const SCALE_WORDS: Record<string, number> = {
+  'হাজার': 1000, 'লাখ': 100000, 'লক্ষ': 100000, 'কোটি': 10000000
+};
+
+// সাড়ে তিনশ = 350, সোয়া দুই = 2.25, পৌনে দুইশ = 175
+const FRACTION_WORDS: Record<string, number> = {
+  'সাড়ে': 0.5, 'সোয়া': 0.25, 'পৌনে': -0.25
+};
+
+type NumberToken =
+  | { type: 'number'; value: number; isWord: boolean }
+  | { type: 'hundred' }
+  | { type: 'scale'; value: number }
+  | { type: 'fraction'; value: number };
+
+// Lookups are done on NFC text, so য় and ড় match whether typed as one code point or two
+const normalizeKeys = <T>(table: Record<string, T>): Map<string, T> =>
+  new Map(Object.entries(table).map(([word, value]) => [word.normalize('NFC'), value]));
+
+const NUMBERS = normalizeKeys(NUMBER_WORDS);
+const SCALES = normalizeKeys(SCALE_WORDS);
+const FRACTIONS = normalizeKeys(FRACTION_WORDS);
+
+export class BengaliNumberParser {
+
+  /**
+   * Read a number written as Bengali words or digits, e.g. "দুইশ পঞ্চাশ" → 250,
+   * "সাড়ে তিন হাজার" → 3500. Returns null when the phrase isn't a number.
+   */
+  parse(phrase: string): number | null {
+    const parts = convertBengaliDigits(phrase.normalize('NFC').trim()).split(/(\s+)/);
+    if (parts.length === 1 && /^\d+(\.\d+)?$/.test(parts[0])) return parseFloat(parts[0]);
+
+    const run = this.readRun(parts, 0);
+    return run && run.end === parts.length - 1 ? this.evaluate(run.tokens) : null;
+  }
+
+  /**
+   * Replace Bengali digits and number phrases in free text with Western digits,
+   * leaving everything else as written
+   */
+  convertText(text: string): string {
+    const parts = convertBengaliDigits(text.normalize('NFC')).split(/(\s+)/);
+    const output: string[] = [];
+
+    for (let i = 0; i < parts.length; i++) {
+      const run = this.readRun(parts, i);
+      if (!run) {
+        output.push(parts[i]);
+        continue;
+      }
+
+      const value = this.evaluate(run.tokens);
+      output.push(value === null ? parts.slice(i, run.end + 1).join('') : this.formatNumber(value));
+      i = run.end;
+    }
+
+    return output.join('');
+  }
+
+  // The longest run of number tokens starting at parts[start], when it holds at least one number word
+  private readRun(parts: string[], start: number): { tokens: NumberToken[]; end: number } | null {
+    const tokens: NumberToken[] = [];
+    let end = start;
+
+    for (let i = start; i < parts.length; i += 2) {
+      const token = this.tokenize(parts[i]);
+      if (!token) break;
+      const next = Array.isArray(token) ? token : [token];
+      // Two numbers side by side ("পঞ্চাশ ষাট") are separate amounts
+      if (next[0].type === 'number' && tokens[tokens.length - 1]?.type === 'number') break;
+      tokens.push(...next);
+      end = i;
+    }
+
+    // Lone digit groups are amounts already; a fraction word must lead into a number
+    const hasWord = tokens.some(token => token.type !== 'number' || token.isWord);
+    while (tokens.length > 0 && tokens[tokens.length - 1].type === 'fraction') {
+      tokens.pop();
+      end -= 2;
+    }
+    return hasWord && tokens.length > 0 ? { tokens, end } : null;
+  }
+
+  private tokenize(word: string): NumberToken | NumberToken[] | null {
+    if (/^\d+(\.\d+)?$/.test(word)) return { type: 'number', value: parseFloat(word), isWord: false };
+
+    const number = NUMBERS.get(word);
+    if (number !== undefined) return { type: 'number', value: number, isWord: true };
+
+    const scale = SCALES.get(word);
+    if (scale !== undefined) return { type: 'scale', value: scale };
+
+    const fraction = FRACTIONS.get(word);
+    if (fraction !== undefined) return { type: 'fraction', value: fraction };
+
+    if (HUNDRED_WORDS.includes(word)) return { type: 'hundred' };
+
+    // Hundreds are usually written as one word: একশ, দুশো, তিনশত, দেড়শ
+    for (const suffix of HUNDRED_WORDS) {
+      if (!word.endsWith(suffix)) continue;
+      const prefix = word.slice(0, -suffix.length);
+      const prefixValue = NUMBERS.get(prefix) ?? (/^\d+$/.test(prefix) ? Number(prefix) : undefined);
+      if (prefixValue !== undefined) {
+        return [{ type: 'number', value: prefixValue, isWord: true }, { type: 'hundred' }];
+      }
+    }
+
+    return null;
+  }
+
+  private evaluate(tokens: NumberToken[]): number | null {
+    let total = 0;
+    let current = 0;
+    let fraction = 0;
+    let sawNumber = false;
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'number':
+          current += token.value;
+          sawNumber = true;
+          break;
+        case 'fraction':
+          fraction += token.value;
+          break;
+        case 'hundred':
+          current = ((current || 1) + fraction) * 100;
+          fraction = 0;
+          sawNumber = true;
+          break;
+        case 'scale':
+          total += ((current || 1) + fraction) * token.value;
+          current = 0;
+          fraction = 0;
+          sawNumber = true;
+          break;
+      }
+    }
+
+    if (!sawNumber) return null;
+    return total + current + (current ? fraction : 0);
+  }
+
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+}
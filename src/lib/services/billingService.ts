@@ -4,16 +4,44 @@ import type {
   DayBill, 
   MonthBill, 
   BillingPeriod, 
-  BillingSummary 
+  BillingSummary,
+  BillingStatement,
+  BillingCycleConfig,
+  BillingCyclePeriod,
+  QuantityUnit
 } from '../types';
+import {
+  DEFAULT_BILLING_CYCLE,
+  getBillingCyclePeriod,
+  getBalanceEffect,
+  getPaidAmount,
+  getSpentAmount,
+  formatQuantity,
+  isPurchase,
+  toBaseQuantity
+} from '../utils/helpers';
 
 export class BillingService {
+  private billingCycle: BillingCycleConfig;
+
+  constructor(billingCycle: BillingCycleConfig = DEFAULT_BILLING_CYCLE) {
+    this.billingCycle = { ...billingCycle };
+  }
+
+  setBillingCycle(billingCycle: BillingCycleConfig): void {
+    this.billingCycle = { ...billingCycle };
+  }
+
+  getBillingCycle(): BillingCycleConfig {
+    return { ...this.billingCycle };
+  }
   
   /**
-   * Generate billing summary for a given period
-   * Month starts from 15th of previous month to 14th of current month
+   * Generate billing summary for a given period, split into billing cycles
+   * that start on the configured cycle day.
+   * openingBalance is what was owed before the first recorded transaction.
    */
-  generateBillingSummary(transactions: Transaction[], period: BillingPeriod): BillingSummary {
+  generateBillingSummary(transactions: Transaction[], period: BillingPeriod, openingBalance: number = 0): BillingSummary {
     // Filter transactions within the period
     const filteredTransactions = transactions.filter(t => 
       t.date >= period.startDate && t.date <= period.endDate
@@ -22,27 +50,92 @@ export class BillingService {
     // Generate daily bills
     const dailyBills = this.generateDailyBills(filteredTransactions);
     
-    // Generate monthly bills (based on 15th to 14th cycle)
+    // Generate monthly bills (one per billing cycle)
     const monthlyBills = this.generateMonthlyBills(filteredTransactions, period);
 
-    const grandTotal = filteredTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const grandTotal = filteredTransactions.filter(isPurchase).reduce((sum, t) => sum + t.amount, 0);
+
+    // Statements need the full history for the opening balance
+    const statements = this.generateStatements(transactions, period, openingBalance);
 
     return {
       period,
       monthlyBills,
       dailyBills,
-      grandTotal
+      statements,
+      grandTotal,
+      totalPaid: this.sumPaid(filteredTransactions),
+      totalCredits: this.sumCredits(filteredTransactions),
+      outstandingBalance: statements.length > 0
+        ? statements[statements.length - 1].closingBalance
+        : this.balanceBefore(transactions, period.endDate, openingBalance)
     };
   }
 
   /**
-   * Generate daily bills with combined items
+   * Generate an account statement for each billing cycle in the period.
+   * The first cycle opens with everything owed before it; every later cycle
+   * opens with the previous cycle's closing balance.
+   */
+  generateStatements(transactions: Transaction[], period: BillingPeriod, openingBalance: number = 0): BillingStatement[] {
+    const cycles = this.generateMonthPeriods(period.startDate, period.endDate);
+    const statements: BillingStatement[] = [];
+
+    const cycleStarts = cycles.map(cycle =>
+      cycle.startDate < period.startDate ? new Date(period.startDate) : cycle.startDate
+    );
+    let balance = cycleStarts.length > 0 ? this.balanceBefore(transactions, cycleStarts[0], openingBalance) : openingBalance;
+
+    cycles.forEach((cycle, index) => {
+      const startDate = cycleStarts[index];
+      const nextStart = cycleStarts[index + 1];
+      // Cycles are contiguous: a transaction belongs to a cycle until the next one starts
+      const cycleTransactions = transactions.filter(t =>
+        t.date >= startDate && (nextStart ? t.date < nextStart : t.date <= period.endDate)
+      );
+
+      const purchases = cycleTransactions.filter(isPurchase).reduce((sum, t) => sum + t.amount, 0);
+      const payments = this.sumPaid(cycleTransactions);
+      const adjustments = this.sumCredits(cycleTransactions);
+      const closingBalance = balance + purchases - payments - adjustments;
+
+      statements.push({
+        month: this.getCycleLabel(cycle),
+        year: cycle.year,
+        startDate,
+        endDate: cycle.endDate,
+        openingBalance: this.roundAmount(balance),
+        purchases: this.roundAmount(purchases),
+        payments: this.roundAmount(payments),
+        adjustments: this.roundAmount(adjustments),
+        closingBalance: this.roundAmount(closingBalance)
+      });
+
+      balance = closingBalance;
+    });
+
+    return statements;
+  }
+
+  private balanceBefore(transactions: Transaction[], date: Date, openingBalance: number): number {
+    return transactions
+      .filter(t => t.date < date)
+      .reduce((balance, t) => balance + getBalanceEffect(t), openingBalance);
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Generate daily bills with combined items.
+   * Bills list purchases only; payments and credits are totalled per month.
    */
   private generateDailyBills(transactions: Transaction[]): DayBill[] {
     // Group transactions by date
     const transactionsByDate = new Map<string, Transaction[]>();
     
-    transactions.forEach(transaction => {
+    transactions.filter(isPurchase).forEach(transaction => {
       const dateKey = transaction.date.toISOString().split('T')[0];
       if (!transactionsByDate.has(dateKey)) {
         transactionsByDate.set(dateKey, []);
@@ -69,17 +162,17 @@ export class BillingService {
   }
 
   /**
-   * Generate monthly bills based on 15th to 14th cycle
+   * Generate monthly bills, one per billing cycle
    */
   private generateMonthlyBills(transactions: Transaction[], period: BillingPeriod): MonthBill[] {
     const monthlyBills: MonthBill[] = [];
     
-    // Generate month periods from 15th to 14th
     const monthPeriods = this.generateMonthPeriods(period.startDate, period.endDate);
     
     for (const monthPeriod of monthPeriods) {
+      // Cycle end dates are calendar days; include everything recorded on the last day
       const monthTransactions = transactions.filter(t => 
-        t.date >= monthPeriod.startDate && t.date <= monthPeriod.endDate
+        t.date >= monthPeriod.startDate && t.date <= this.endOfDay(monthPeriod.endDate)
       );
 
       if (monthTransactions.length === 0) continue;
@@ -88,16 +181,18 @@ export class BillingService {
       const monthDailyBills = this.generateDailyBills(monthTransactions);
       
       // Combine all items for the month
-      const itemSummary = this.combineItems(monthTransactions);
+      const itemSummary = this.combineItems(monthTransactions.filter(isPurchase));
       const totalAmount = itemSummary.reduce((sum, item) => sum + item.totalPrice, 0);
 
       monthlyBills.push({
-        month: monthPeriod.endDate.toLocaleString('default', { month: 'long' }),
-        year: monthPeriod.endDate.getFullYear(),
+        month: this.getCycleLabel(monthPeriod),
+        year: monthPeriod.year,
         startDate: monthPeriod.startDate,
         endDate: monthPeriod.endDate,
         days: monthDailyBills,
         totalAmount,
+        totalPaid: this.sumPaid(monthTransactions),
+        totalCredits: this.sumCredits(monthTransactions),
         itemSummary
       });
     }
@@ -105,55 +200,38 @@ export class BillingService {
     return monthlyBills;
   }
 
+  private sumPaid(transactions: Transaction[]): number {
+    return transactions.reduce((sum, t) => sum + getPaidAmount(t), 0);
+  }
+
   /**
-   * Generate month periods from 15th to 14th
+   * Refunds and returns, as a positive amount
    */
-  private generateMonthPeriods(startDate: Date, endDate: Date): { startDate: Date; endDate: Date }[] {
-    const periods: { startDate: Date; endDate: Date }[] = [];
-    
-    // Start from the 15th of the month containing startDate
-    let currentStart = new Date(startDate.getFullYear(), startDate.getMonth(), 15);
-    
-    // If startDate is before the 15th, start from previous month's 15th
-    if (startDate.getDate() < 15) {
-      currentStart = new Date(startDate.getFullYear(), startDate.getMonth() - 1, 15);
-    }
+  private sumCredits(transactions: Transaction[]): number {
+    return transactions.reduce((sum, t) => sum - Math.min(getSpentAmount(t), 0), 0);
+  }
 
-    // Ensure we don't go to previous year if month is negative (January)
-    if (currentStart.getMonth() < 0) {
-      currentStart = new Date(currentStart.getFullYear() - 1, 11, 15);
-    }
+  /**
+   * Generate the billing cycles covering a date range. The first cycle is the one
+   * containing startDate; the last one is cut off at endDate.
+   */
+  private generateMonthPeriods(startDate: Date, endDate: Date): BillingCyclePeriod[] {
+    const periods: BillingCyclePeriod[] = [];
+    let cycle = getBillingCyclePeriod(startDate, this.billingCycle);
 
-    // Make sure we generate at least one period
     let iterations = 0;
     const maxIterations = 1000; // Safety check to prevent infinite loops
 
-    while (currentStart <= endDate && iterations < maxIterations) {
-      // End date is 14th of next month
-      const currentEnd = new Date(currentStart.getFullYear(), currentStart.getMonth() + 1, 14);
-      
-      // Handle month overflow (December to January)
-      if (currentEnd.getMonth() < currentStart.getMonth()) {
-        currentEnd.setFullYear(currentEnd.getFullYear() + 1);
-      }
-      
-      // Don't go beyond the requested end date - use the minimum of currentEnd and endDate
-      const periodEnd = currentEnd > endDate ? new Date(endDate) : new Date(currentEnd);
-      
+    while (cycle.startDate <= endDate && iterations < maxIterations) {
       periods.push({
-        startDate: new Date(currentStart),
-        endDate: new Date(periodEnd) // Make sure we create a new Date object
+        ...cycle,
+        startDate: new Date(cycle.startDate),
+        // Don't go beyond the requested end date
+        endDate: cycle.endDate > endDate ? new Date(endDate) : new Date(cycle.endDate)
       });
 
-      // Move to next month period (15th of next month)
-      currentStart = new Date(currentStart.getFullYear(), currentStart.getMonth() + 1, 15);
-      
-      // Handle month overflow (December to January)
-      if (currentStart.getMonth() > 11) {
-        currentStart.setFullYear(currentStart.getFullYear() + 1);
-        currentStart.setMonth(0);
-      }
-      
+      const nextDay = new Date(cycle.endDate.getFullYear(), cycle.endDate.getMonth(), cycle.endDate.getDate() + 1);
+      cycle = getBillingCyclePeriod(nextDay, this.billingCycle);
       iterations++;
     }
 
@@ -164,37 +242,51 @@ export class BillingService {
     return periods;
   }
 
+  private getCycleLabel(cycle: BillingCyclePeriod): string {
+    return new Date(cycle.year, cycle.month - 1, 1).toLocaleString('default', { month: 'long' });
+  }
+
+  private endOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+  }
+
   /**
-   * Combine recurring items and calculate quantities
+   * Combine recurring items and calculate quantities. Transactions with a
+   * quantity add it in the unit's base (kg, litre or pcs); ones without
+   * count as a single unit and are kept on their own line.
    */
   private combineItems(transactions: Transaction[]): BillItem[] {
-    const itemMap = new Map<string, { quantity: number; totalPrice: number; unitPrice: number }>();
+    const itemMap = new Map<string, { item: string; quantity: number; unit?: QuantityUnit; totalPrice: number }>();
 
     transactions.forEach(transaction => {
-      const itemKey = transaction.item.toLowerCase().trim();
+      const item = transaction.item.toLowerCase().trim();
+      const base = transaction.quantity && transaction.unit
+        ? toBaseQuantity(transaction.quantity, transaction.unit)
+        : { quantity: 1, unit: undefined };
+      const itemKey = `${item}|${base.unit || ''}`;
       
-      if (itemMap.has(itemKey)) {
-        const existing = itemMap.get(itemKey)!;
-        existing.quantity += 1;
+      const existing = itemMap.get(itemKey);
+      if (existing) {
+        existing.quantity += base.quantity;
         existing.totalPrice += transaction.amount;
-        // Update unit price to average
-        existing.unitPrice = existing.totalPrice / existing.quantity;
       } else {
         itemMap.set(itemKey, {
-          quantity: 1,
-          totalPrice: transaction.amount,
-          unitPrice: transaction.amount
+          item,
+          quantity: base.quantity,
+          unit: base.unit,
+          totalPrice: transaction.amount
         });
       }
     });
 
     // Convert to BillItem array
     const billItems: BillItem[] = [];
-    for (const [item, data] of itemMap.entries()) {
+    for (const data of itemMap.values()) {
       billItems.push({
-        item,
-        quantity: data.quantity,
-        unitPrice: Math.round(data.unitPrice * 100) / 100, // Round to 2 decimal places
+        item: data.item,
+        quantity: Math.round(data.quantity * 1000) / 1000,
+        ...(data.unit ? { unit: data.unit } : {}),
+        unitPrice: Math.round(data.totalPrice / data.quantity * 100) / 100, // Round to 2 decimal places
         totalPrice: Math.round(data.totalPrice * 100) / 100
       });
     }
@@ -204,16 +296,15 @@ export class BillingService {
   }
 
   /**
-   * Create a billing period for a specific month (15th to 14th cycle)
+   * Create a billing period for the cycle that ends in a specific month (0-based)
    */
   createMonthPeriod(year: number, month: number): BillingPeriod {
-    // Month billing period: 15th of (month-1) to 14th of month
-    const startDate = new Date(year, month - 1, 15);
-    const endDate = new Date(year, month, 14, 23, 59, 59);
+    // The cycle containing the 1st of a month is the one that ends in it
+    const cycle = getBillingCyclePeriod(new Date(year, month, 1), this.billingCycle);
 
     return {
-      startDate,
-      endDate,
+      startDate: cycle.startDate,
+      endDate: this.endOfDay(cycle.endDate),
       type: 'month'
     };
   }
@@ -240,35 +331,29 @@ export class BillingService {
     const earliestDate = dates[0];
     const latestDate = dates[dates.length - 1];
 
-    // Generate month periods
+    // Generate billing cycles, each labelled with the month it ends in
     const periods = this.generateMonthPeriods(earliestDate, latestDate);
     
-    return periods.map(period => {
-      // For the month label, we need to determine which cycle this period belongs to
-      // The cycle is determined by the 15th-to-14th rule:
-      // - Period from Dec 15 to Jan 14 is labeled as "January"
-      // - Period from Jan 15 to Feb 14 is labeled as "February"
-      // etc.
-      
-      // The label should be the month that contains the 14th of the period
-      // For a period that starts on the 15th of a month, it ends on the 14th of the next month
-      // So we label it with the month that contains the 14th
-      
-      // But for partial periods (where endDate is not the full 14th), we still label it
-      // according to the cycle it belongs to
-      
-      // Determine the cycle month:
-      // If the period starts on the 15th of a month, it belongs to the cycle that ends
-      // on the 14th of the next month, so we label it with that next month
-      const cycleMonth = new Date(period.startDate.getFullYear(), period.startDate.getMonth() + 1, 1);
-      
-      return {
-        month: cycleMonth.toLocaleString('default', { month: 'long' }),
-        year: cycleMonth.getFullYear(),
-        startDate: period.startDate,
-        endDate: period.endDate
-      };
-    });
+    return periods.map(period => ({
+      month: this.getCycleLabel(period),
+      year: period.year,
+      startDate: period.startDate,
+      endDate: period.endDate
+    }));
+  }
+
+  /**
+   * Format a cycle statement for display
+   */
+  formatStatementForDisplay(statement: BillingStatement): string {
+    let output = `Statement: ${statement.month} ${statement.year}\n`;
+    output += `Period: ${statement.startDate.toLocaleDateString()} - ${statement.endDate.toLocaleDateString()}\n`;
+    output += `Opening balance: ৳${statement.openingBalance.toFixed(2)}\n`;
+    output += `+ Purchases: ৳${statement.purchases.toFixed(2)}\n`;
+    output += `- Payments: ৳${statement.payments.toFixed(2)}\n`;
+    output += `- Adjustments: ৳${statement.adjustments.toFixed(2)}\n`;
+    output += `Closing balance: ৳${statement.closingBalance.toFixed(2)}\n`;
+    return output;
   }
 
   /**
@@ -280,11 +365,15 @@ export class BillingService {
     if ('month' in bill) {
       // Monthly bill
       output += `Month: ${bill.month} ${bill.year} | Total: ৳${bill.totalAmount.toFixed(2)}\n`;
-      output += `Period: ${bill.startDate.toLocaleDateString()} - ${bill.endDate.toLocaleDateString()}\n\n`;
+      output += `Period: ${bill.startDate.toLocaleDateString()} - ${bill.endDate.toLocaleDateString()}\n`;
+      if (bill.totalPaid > 0 || bill.totalCredits > 0) {
+        output += `Paid: ৳${bill.totalPaid.toFixed(2)} | Refunds/Returns: ৳${bill.totalCredits.toFixed(2)}\n`;
+      }
+      output += '\n';
       
       output += 'Items:\n';
       bill.itemSummary.forEach(item => {
-        output += `${item.item} x${item.quantity} @ ৳${item.unitPrice.toFixed(2)} = ৳${item.totalPrice.toFixed(2)}\n`;
+        output += `${item.item} x${formatQuantity(item.quantity, item.unit)} @ ৳${item.unitPrice.toFixed(2)} = ৳${item.totalPrice.toFixed(2)}\n`;
       });
     } else {
       // Daily bill
@@ -292,7 +381,7 @@ export class BillingService {
       
       output += 'Items:\n';
       bill.items.forEach(item => {
-        output += `${item.item} x${item.quantity} @ ৳${item.unitPrice.toFixed(2)} = ৳${item.totalPrice.toFixed(2)}\n`;
+        output += `${item.item} x${formatQuantity(item.quantity, item.unit)} @ ৳${item.unitPrice.toFixed(2)} = ৳${item.totalPrice.toFixed(2)}\n`;
       });
     }
 
@@ -1,12 +1,16 @@
 import type { Category, Transaction, CategoryUsageStats, CategoryAnalytics } from '../types';
 import { generateId } from '../utils/helpers';
+import { phoneticKey } from '../utils/transliteration';
+import { ItemAliasService } from './itemAliasService';
 
 export class CategoryService {
   private categories: Category[] = [];
   private storageKey = 'whatsapp-categories';
   private itemCategoryMappings: Map<string, string> = new Map();
+  private itemAliases: ItemAliasService;
 
-  constructor() {
+  constructor(itemAliases: ItemAliasService = new ItemAliasService()) {
+    this.itemAliases = itemAliases;
     this.loadFromStorage();
     this.loadItemMappings();
   }
@@ -200,12 +204,11 @@ export class CategoryService {
   }
 
   // Utility methods
+  // Every spelling of an item in the alias dictionary, and every script it is
+  // written in, shares its category mapping
   private normalizeItemName(itemName: string): string {
-    return itemName
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s\u0980-\u09FF]/g, '') // Remove special characters, keep Bengali
-      .replace(/\s+/g, ' ');
+    const name = this.itemAliases.resolve(itemName) ?? itemName;
+    return phoneticKey(name) || name.toLowerCase().trim();
   }
 
   private areItemsSimilar(item1: string, item2: string): boolean {
@@ -262,8 +265,9 @@ export class CategoryService {
     try {
       const data = localStorage.getItem(`${this.storageKey}-mappings`);
       if (data) {
-        const mappingsArray = JSON.parse(data);
-        this.itemCategoryMappings = new Map(mappingsArray);
+        const mappingsArray: [string, string][] = JSON.parse(data);
+        // Mappings saved under older keys are moved to the current ones
+        this.itemCategoryMappings = new Map(mappingsArray.map(([item, categoryId]) => [this.normalizeItemName(item), categoryId]));
       }
     } catch (error) {
       console.error('Failed to load item mappings from storage:', error);
@@ -310,7 +314,7 @@ export class CategoryService {
           const category = this.categories.find(c => c.id === categoryId) || 
                           this.categories.find(c => c.name === categoryId);
           if (category) {
-            this.itemCategoryMappings.set(item, category.id);
+            this.itemCategoryMappings.set(this.normalizeItemName(item), category.id);
           }
         }
         await this.saveItemMappings();
@@ -350,13 +354,13 @@ export class CategoryService {
 
     // Generate suggestions for each item group
     for (const [item, itemTransactions] of itemGroups.entries()) {
-      const suggestedCategory = await this.suggestCategoryForItem(item);
+      const suggestedCategory = await this.suggestCategoryForItem(itemTransactions[0].item);
       if (suggestedCategory) {
         // Calculate confidence based on how many similar items are already categorized
         const confidence = this.calculateSuggestionConfidence(item);
         
         suggestions.push({
-          item,
+          item: itemTransactions[0].item, // The key is for matching, not for display
           suggestedCategory,
           confidence,
           transactionCount: itemTransactions.length
@@ -0,0 +1,92 @@
+import type { ArchiveAttachment, ChatArchive } from '../types';
+import { ZipReader } from './zipReader';
+import type { ZipEntry } from './zipReader';
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  mp4: 'video/mp4',
+  opus: 'audio/ogg',
+  m4a: 'audio/mp4',
+  vcf: 'text/vcard',
+  txt: 'text/plain'
+};
+
+export class ChatArchiveService {
+
+  /**
+   * Open a WhatsApp export archive: read its chat text and list the other
+   * files so they can be attached to transactions later
+   */
+  async openArchive(data: ArrayBuffer): Promise<ChatArchive> {
+    const zip = new ZipReader(data);
+    const entries = zip.listEntries().filter(entry => !this.isSystemFile(entry.name));
+
+    const chatEntry = this.findChatEntry(entries);
+    if (!chatEntry) {
+      throw new Error('No chat text file found in the archive');
+    }
+
+    const attachmentEntries = new Map(
+      entries.filter(entry => entry !== chatEntry).map(entry => [entry.name, entry])
+    );
+
+    return {
+      chatFileName: chatEntry.name,
+      content: await zip.readText(chatEntry),
+      attachments: [...attachmentEntries.values()].map(entry => this.toAttachment(entry)),
+      readAttachment: async (name: string) => {
+        const entry = attachmentEntries.get(name);
+        if (!entry) {
+          throw new Error(`Attachment not found: ${name}`);
+        }
+        return new Blob([await zip.read(entry)], { type: this.getMimeType(name) });
+      }
+    };
+  }
+
+  /**
+   * iOS exports name the chat "_chat.txt"; Android ones "WhatsApp Chat with <name>.txt".
+   * Otherwise the largest text file is taken.
+   */
+  private findChatEntry(entries: ZipEntry[]): ZipEntry | null {
+    const textEntries = entries.filter(entry => entry.name.toLowerCase().endsWith('.txt'));
+    const named = textEntries.find(entry => /(^|\/)(_chat\.txt|whatsapp chat[^/]*\.txt)$/i.test(entry.name));
+    if (named) return named;
+
+    return textEntries.sort((a, b) => b.size - a.size)[0] || null;
+  }
+
+  private toAttachment(entry: ZipEntry): ArchiveAttachment {
+    return {
+      name: entry.name,
+      size: entry.size,
+      mimeType: this.getMimeType(entry.name),
+      date: this.getDateFromName(entry.name)
+    };
+  }
+
+  private getMimeType(name: string): string {
+    const extension = name.split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[extension] || 'application/octet-stream';
+  }
+
+  // Android: IMG-20250815-WA0003.jpg, iOS: 00000012-PHOTO-2025-08-15-17-33-10.jpg
+  private getDateFromName(name: string): Date | undefined {
+    const match = name.match(/(20\d{2})-?(\d{2})-?(\d{2})/);
+    if (!match) return undefined;
+
+    const [, year, month, day] = match.map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+    return new Date(year, month - 1, day);
+  }
+
+  private isSystemFile(name: string): boolean {
+    return name.startsWith('__MACOSX/') || /(^|\/)\.DS_Store$/.test(name);
+  }
+}
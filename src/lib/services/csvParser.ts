@@ -1,9 +1,25 @@
-import type { Transaction } from '../types';
-import { generateId } from '../utils/helpers';
+import type { DateOrder, DateOrderDecision, ParseTrace, Transaction } from '../types';
+import { generateId, PARSER_VERSION } from '../utils/helpers';
+import { DateOrderDetector } from './dateOrderDetector';
+import type { DateParts } from './dateOrderDetector';
+import { QuantityParser } from './quantityParser';
 
 export class CSVParser {
+  private dateOrderDetector = new DateOrderDetector();
+  private quantityParser = new QuantityParser();
   
-  parseCSV(csvContent: string): Transaction[] {
+  /**
+   * Parse Date,Item,Amount[,Sender,Quantity,Unit] rows. Rows without a sender are
+   * attributed to defaultSender. The day/month order is detected from
+   * the whole file unless one is given. traces[i], when given, replaces
+   * the plain CSV trace of line i.
+   */
+  parseCSV(
+    csvContent: string,
+    options: { defaultSender?: string; dateOrder?: DateOrder; traces?: (ParseTrace | null)[] } = {}
+  ): Transaction[] {
+    const { defaultSender = 'unknown' } = options;
+    const order = options.dateOrder || this.detectDateOrder(csvContent).order;
     const lines = csvContent.split('\n');
     const transactions: Transaction[] = [];
     
@@ -12,20 +28,31 @@ export class CSVParser {
       const line = lines[i].trim();
       if (!line) continue;
       
-      const [dateStr, item, amountStr] = line.split(',');
+      const [dateStr, item, amountStr, sender, quantityStr, unitStr] = line.split(',');
       
       if (dateStr && item && amountStr) {
-        const date = this.parseDate(dateStr);
+        const parts = this.splitDate(dateStr);
+        const date = parts ? this.dateOrderDetector.toDate(parts, order) : null;
         const amount = parseFloat(amountStr);
+        const quantity = parseFloat(quantityStr);
+        const unit = unitStr ? this.quantityParser.parseUnit(unitStr.trim()) : null;
         
         if (date && amount > 0) {
           transactions.push({
             id: generateId(),
             date,
-            sender: 'monir',
+            sender: sender?.trim() || defaultSender,
             item: item.trim(),
             amount,
+            ...(quantity > 0 ? { quantity, unit: unit || 'pcs' } : {}),
             originalMessage: line,
+            trace: options.traces?.[i] || {
+              parserVersion: PARSER_VERSION,
+              rule: 'csv_row',
+              lines: { start: i + 1, end: i + 1 },
+              tokens: [dateStr, item, amountStr],
+              decisions: []
+            },
             createdAt: new Date(),
             updatedAt: new Date()
           });
@@ -36,13 +63,22 @@ export class CSVParser {
     return transactions;
   }
   
-  private parseDate(dateStr: string): Date | null {
-    try {
-      const [day, month, year] = dateStr.split('/').map(Number);
-      const fullYear = year < 100 ? 2000 + year : year;
-      return new Date(fullYear, month - 1, day);
-    } catch {
-      return null;
-    }
+  /**
+   * Decide whether the Date column is day or month first
+   */
+  detectDateOrder(csvContent: string, override?: DateOrder): DateOrderDecision {
+    const dates = csvContent
+      .split('\n')
+      .slice(1)
+      .map(line => this.splitDate(line.split(',')[0] || ''))
+      .filter((parts): parts is DateParts => parts !== null);
+    
+    return this.dateOrderDetector.detect(dates, override);
+  }
+  
+  private splitDate(dateStr: string): DateParts | null {
+    const match = dateStr.trim().match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2,4})$/);
+    if (!match) return null;
+    return { first: Number(match[1]), second: Number(match[2]), year: Number(match[3]) };
   }
 }
\ No newline at end of file
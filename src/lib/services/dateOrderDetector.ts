@@ -0,0 +1,77 @@
+import type { DateOrder, DateOrderDecision } from '../types';
+
+// A numeric date as written, before deciding which field is the day
+export interface DateParts {
+  first: number;
+  second: number;
+  year: number;
+  hours?: number; // 24-hour clock
+  minutes?: number;
+}
+
+export class DateOrderDetector {
+
+  /**
+   * Decide whether the dates of a file are day or month first.
+   * A field above 12 can only be a day; failing that, the order under which the
+   * dates (which are in file order) move backwards least often wins.
+   */
+  detect(dates: DateParts[], override?: DateOrder): DateOrderDecision {
+    if (override) {
+      return { order: override, reason: 'override' };
+    }
+
+    let dayFirst = 0;
+    let monthFirst = 0;
+    for (const date of dates) {
+      if (date.first > 12 && date.second <= 12) dayFirst++;
+      else if (date.second > 12 && date.first <= 12) monthFirst++;
+    }
+    if (dayFirst !== monthFirst) {
+      return { order: dayFirst > monthFirst ? 'dmy' : 'mdy', reason: 'impossible_values' };
+    }
+
+    const dmyBackwardSteps = this.countBackwardSteps(dates, 'dmy');
+    const mdyBackwardSteps = this.countBackwardSteps(dates, 'mdy');
+    if (dmyBackwardSteps !== mdyBackwardSteps) {
+      return { order: dmyBackwardSteps < mdyBackwardSteps ? 'dmy' : 'mdy', reason: 'chronology' };
+    }
+
+    return { order: 'dmy', reason: 'default' };
+  }
+
+  /**
+   * Build the date for the given order, or null when it does not exist
+   */
+  toDate(parts: DateParts, order: DateOrder): Date | null {
+    const day = order === 'dmy' ? parts.first : parts.second;
+    const month = order === 'dmy' ? parts.second : parts.first;
+    const year = parts.year < 100 ? 2000 + parts.year : parts.year;
+    const hours = parts.hours ?? 0;
+    const minutes = parts.minutes ?? 0;
+
+    if (month < 1 || month > 12 || day < 1 || hours > 23 || minutes > 59) return null;
+
+    const date = new Date(year, month - 1, day, hours, minutes);
+    // Rolled over into the next month, e.g. 31/02
+    if (date.getDate() !== day) return null;
+    return date;
+  }
+
+  private countBackwardSteps(dates: DateParts[], order: DateOrder): number {
+    let steps = 0;
+    let previous: Date | null = null;
+
+    for (const parts of dates) {
+      const date = this.toDate(parts, order);
+      if (!date) {
+        steps++;
+        continue;
+      }
+      if (previous && date < previous) steps++;
+      previous = date;
+    }
+
+    return steps;
+  }
+}
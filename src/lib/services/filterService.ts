@@ -1,5 +1,6 @@
 import type { Transaction, FilterState, FilterPreset, Category } from '../types';
 import { generateId } from '../utils/helpers';
+import { itemMatchesSearch } from '../utils/transliteration';
 
 export class FilterService {
   private filterPresets: FilterPreset[] = [];
@@ -27,9 +28,7 @@ export class FilterService {
     // Item filter
     if (filters.items.length > 0) {
       result = result.filter(transaction => 
-        filters.items.some(item => 
-          transaction.item.toLowerCase().includes(item.toLowerCase())
-        )
+        filters.items.some(item => itemMatchesSearch(transaction.item, item))
       );
     }
 
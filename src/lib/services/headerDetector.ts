@@ -0,0 +1,137 @@
+import type { ChatFormat, ChatHeader, ChatPlatform, DateOrder } from '../types';
+import { DateOrderDetector } from './dateOrderDetector';
+import type { DateParts } from './dateOrderDetector';
+
+// Direction marks and isolates that WhatsApp inserts around names and timestamps
+const INVISIBLE_CHARACTERS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+// Narrow no-break spaces appear before "PM" in newer exports
+const SPECIAL_SPACES = /[\u00A0\u2007\u202F]/g;
+
+const DATE = '(\\d{1,2})([\\/.\\-])(\\d{1,2})[\\/.\\-](\\d{2,4})';
+const TIME = '(\\d{1,2})[:.](\\d{2})(?:[:.]\\d{2})?\\s*([ap]\\.?\\s?m\\.?)?';
+
+// Groups: day or month, separator, month or day, year, hours, minutes, am/pm, sender, message
+const HEADER_PATTERNS: Record<ChatPlatform, RegExp> = {
+  android: new RegExp(`^${DATE}(?:,\\s*|\\s+)${TIME}\\s*[-–]\\s*([^:]+):\\s*(.*)$`, 'i'),
+  ios: new RegExp(`^\\[${DATE}(?:,\\s*|\\s+)${TIME}\\]\\s*([^:]+):\\s*(.*)$`, 'i')
+};
+
+// Timestamped lines without a sender, e.g. "15/08/2025, 5:33 pm - Messages and calls are end-to-end encrypted."
+// Groups: as above up to am/pm, then the notice
+const NOTICE_PATTERNS: Record<ChatPlatform, RegExp> = {
+  android: new RegExp(`^${DATE}(?:,\\s*|\\s+)${TIME}\\s*[-–]\\s*(\\S.*)$`, 'i'),
+  ios: new RegExp(`^\\[${DATE}(?:,\\s*|\\s+)${TIME}\\]\\s*(\\S.*)$`, 'i')
+};
+
+export class HeaderDetector {
+  private dateOrderDetector = new DateOrderDetector();
+
+  /**
+   * Strip the invisible characters WhatsApp adds to exported lines
+   */
+  normalizeLine(line: string): string {
+    return line.replace(INVISIBLE_CHARACTERS, '').replace(SPECIAL_SPACES, ' ').trim();
+  }
+
+  /**
+   * Parse a message header line. With a known format only that platform's
+   * pattern is tried and its date order is used; otherwise every supported
+   * pattern is tried and dates are read day first.
+   */
+  parseHeader(line: string, format?: ChatFormat | null): ChatHeader | null {
+    const match = this.matchHeader(this.normalizeLine(line), format);
+    if (!match) return null;
+
+    const [sender, message] = match.groups.slice(8);
+    const date = this.dateOrderDetector.toDate(match.parts, format?.dateOrder.order || 'dmy');
+    if (!date) return null;
+
+    return { date, sender: sender.trim(), message };
+  }
+
+  /**
+   * Whether a line is a system notice: timestamped like a message header but
+   * without a sender, so it isn't part of the message before it
+   */
+  isSystemNotice(line: string, format?: ChatFormat | null): boolean {
+    const normalized = this.normalizeLine(line);
+    return !this.matchHeader(normalized, format) && !!this.matchHeader(normalized, format, NOTICE_PATTERNS);
+  }
+
+  /**
+   * Parse a system notice line into its date and text, or null when the line isn't one
+   */
+  parseNotice(line: string, format?: ChatFormat | null): { date: Date; message: string } | null {
+    const normalized = this.normalizeLine(line);
+    if (this.matchHeader(normalized, format)) return null;
+
+    const match = this.matchHeader(normalized, format, NOTICE_PATTERNS);
+    if (!match) return null;
+
+    const date = this.dateOrderDetector.toDate(match.parts, format?.dateOrder.order || 'dmy');
+    return date ? { date, message: match.groups[8] } : null;
+  }
+
+  /**
+   * Find the header format used by a chat export, and its day/month order
+   * from the dates of every header. Returns null when no line looks like a message header.
+   */
+  detectFormat(content: string, dateOrder?: DateOrder): ChatFormat | null {
+    const headers = new Map<string, { format: Omit<ChatFormat, 'dateOrder'>; dates: DateParts[] }>();
+
+    for (const rawLine of content.split('\n')) {
+      const match = this.matchHeader(this.normalizeLine(rawLine));
+      if (!match) continue;
+
+      const format: Omit<ChatFormat, 'dateOrder'> = {
+        platform: match.platform,
+        dateSeparator: match.groups[2] as ChatFormat['dateSeparator'],
+        clock: match.groups[7] ? '12h' : '24h'
+      };
+      const key = `${format.platform}|${format.dateSeparator}|${format.clock}`;
+      const entry = headers.get(key) || { format, dates: [] };
+      entry.dates.push(match.parts);
+      headers.set(key, entry);
+    }
+
+    let best: { format: Omit<ChatFormat, 'dateOrder'>; dates: DateParts[] } | null = null;
+    for (const entry of headers.values()) {
+      if (!best || entry.dates.length > best.dates.length) best = entry;
+    }
+    if (!best) return null;
+
+    return { ...best.format, dateOrder: this.dateOrderDetector.detect(best.dates, dateOrder) };
+  }
+
+  private matchHeader(
+    line: string,
+    format?: ChatFormat | null,
+    patterns: Record<ChatPlatform, RegExp> = HEADER_PATTERNS
+  ): { platform: ChatPlatform; groups: string[]; parts: DateParts } | null {
+    const platforms: ChatPlatform[] = format ? [format.platform] : ['android', 'ios'];
+
+    for (const platform of platforms) {
+      const match = line.match(patterns[platform]);
+      if (match) {
+        const [, first, , second, year, hours, minutes, ampm] = match;
+        const parts: DateParts = {
+          first: Number(first),
+          second: Number(second),
+          year: Number(year),
+          hours: this.to24Hour(Number(hours), ampm),
+          minutes: Number(minutes)
+        };
+        return { platform, groups: [...match], parts };
+      }
+    }
+    return null;
+  }
+
+  private to24Hour(hours: number, ampm?: string): number {
+    if (!ampm) return hours;
+    const isPm = ampm.toLowerCase().startsWith('p');
+    if (isPm && hours !== 12) return hours + 12;
+    if (!isPm && hours === 12) return 0;
+    return hours;
+  }
+}
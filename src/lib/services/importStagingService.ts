@@ -0,0 +1,206 @@
+import type { DuplicateAction, DuplicateCandidate, ImportBatch, ImportPlan, ItemCorrection, ParseResult, StagedRow, Transaction } from '../types';
+import { generateId, isUnallocated, withoutFlag } from '../utils/helpers';
+
+type EditableFields = Partial<Pick<Transaction, 'item' | 'amount' | 'quantity' | 'unit' | 'kind'>>;
+
+export class ImportStagingService {
+
+  /**
+   * Hold a parse result for review. correctItem checks item names against the
+   * known items: close matches are renamed, less certain ones wait for review.
+   * flagAmount then marks amounts far from what the item usually costs.
+   * findDuplicates matches the rows against the saved transactions;
+   * duplicates are skipped unless the user decides otherwise.
+   */
+  stage(
+    result: ParseResult,
+    sourceFile: string,
+    findDuplicates: (transactions: Transaction[]) => DuplicateCandidate[] = () => [],
+    correctItem?: (item: string) => ItemCorrection,
+    flagAmount?: (transaction: Transaction) => Transaction
+  ): ImportBatch {
+    // The unallocated line is named by the parser, not the chat, so there is nothing to correct
+    const corrected = result.transactions.map(transaction => {
+      const { transaction: named, correction } = this.applyCorrection(transaction, isUnallocated(transaction) ? undefined : correctItem?.(transaction.item));
+      return { transaction: flagAmount ? flagAmount(named) : named, correction };
+    });
+    const duplicates = new Map(findDuplicates(corrected.map(c => c.transaction)).map(candidate => [candidate.transaction, candidate]));
+
+    return {
+      sourceFile,
+      rows: corrected.map(({ transaction, correction }) => {
+        const duplicate = duplicates.get(transaction);
+        return {
+          key: generateId(),
+          messageKey: this.getMessageKey(transaction),
+          transaction,
+          accepted: true,
+          ...(correction ? { correction } : {}),
+          ...(duplicate ? { duplicate, duplicateAction: 'skip' as DuplicateAction } : {})
+        };
+      }),
+      errors: result.errors,
+      suspiciousTransactions: result.suspiciousTransactions
+    };
+  }
+
+  updateRow(batch: ImportBatch, key: string, updates: EditableFields): ImportBatch {
+    return this.mapRows(batch, row => {
+      if (row.key !== key) return row;
+      // An amount typed in by hand is what the user meant, however unusual
+      const typed = updates.amount === undefined ? row.transaction.flags : withoutFlag(row.transaction.flags, 'amount_outlier');
+      // An item typed in by hand needs no correction
+      if (updates.item === undefined) {
+        return { ...row, transaction: { ...row.transaction, ...updates, flags: typed, updatedAt: new Date() } };
+      }
+      const { correction, ...plain } = row;
+      // Naming the unallocated line assigns its amount to that item
+      const flags = isUnallocated(row.transaction) ? undefined : typed;
+      return { ...plain, transaction: { ...row.transaction, ...updates, flags, confidence: 1, updatedAt: new Date() } };
+    });
+  }
+
+  /**
+   * Settle an item correction: use the suggested name, or keep the item as
+   * written. Either way the user has confirmed the name.
+   */
+  resolveCorrection(batch: ImportBatch, key: string, useSuggestion: boolean): ImportBatch {
+    return this.mapRows(batch, row => {
+      if (row.key !== key || !row.correction) return row;
+      const { correction, ...plain } = row;
+      const item = useSuggestion && correction.suggestion ? correction.suggestion : correction.original;
+      return { ...plain, transaction: { ...row.transaction, item, confidence: 1, updatedAt: new Date() } };
+    });
+  }
+
+  /**
+   * Keep an unusual amount as it is. Saved without its flag, it counts
+   * as a usual amount of the item from the next import on.
+   */
+  confirmAmount(batch: ImportBatch, key: string): ImportBatch {
+    return this.mapRows(batch, row => (row.key === key
+      ? { ...row, transaction: { ...row.transaction, flags: withoutFlag(row.transaction.flags, 'amount_outlier'), updatedAt: new Date() } }
+      : row));
+  }
+
+  setAccepted(batch: ImportBatch, key: string, accepted: boolean): ImportBatch {
+    return this.mapRows(batch, row => (row.key === key ? { ...row, accepted } : row));
+  }
+
+  /**
+   * Accept or reject every row read from one message
+   */
+  setMessageAccepted(batch: ImportBatch, messageKey: string, accepted: boolean): ImportBatch {
+    return this.mapRows(batch, row => (row.messageKey === messageKey ? { ...row, accepted } : row));
+  }
+
+  setDuplicateAction(batch: ImportBatch, key: string, duplicateAction: DuplicateAction): ImportBatch {
+    return this.mapRows(batch, row => (row.key === key && row.duplicate ? { ...row, duplicateAction } : row));
+  }
+
+  /**
+   * Split a row in two halves of its amount, to be edited into separate items
+   */
+  splitRow(batch: ImportBatch, key: string): ImportBatch {
+    const index = batch.rows.findIndex(row => row.key === key);
+    if (index === -1) throw new Error('Row not found');
+
+    const row = batch.rows[index];
+    const first = Math.round(row.transaction.amount * 50) / 100;
+    const second = Math.round((row.transaction.amount - first) * 100) / 100;
+    if (first <= 0 || second <= 0) throw new Error('Amount is too small to split');
+
+    const { duplicate, duplicateAction, ...plain } = row;
+    const rows = [...batch.rows];
+    rows.splice(index, 1,
+      { ...row, transaction: { ...row.transaction, amount: first } },
+      { ...plain, key: generateId(), transaction: { ...row.transaction, id: generateId(), amount: second } }
+    );
+    return { ...batch, rows };
+  }
+
+  /**
+   * Merge a row into the one before it from the same message, adding up amounts
+   * and, when the units match, quantities
+   */
+  mergeWithPrevious(batch: ImportBatch, key: string): ImportBatch {
+    const index = batch.rows.findIndex(row => row.key === key);
+    const previousIndex = batch.rows.slice(0, Math.max(index, 0))
+      .map(row => row.messageKey)
+      .lastIndexOf(batch.rows[index]?.messageKey);
+    if (index === -1 || previousIndex === -1) {
+      throw new Error('Only rows from the same message can be merged');
+    }
+
+    const previous = batch.rows[previousIndex];
+    const target = previous.transaction;
+    const source = batch.rows[index].transaction;
+    const sameUnit = target.quantity && source.quantity && target.unit === source.unit;
+    const merged: Transaction = {
+      ...target,
+      amount: Math.round((target.amount + source.amount) * 100) / 100,
+      quantity: sameUnit ? target.quantity! + source.quantity! : undefined,
+      unit: sameUnit ? target.unit : undefined
+    };
+
+    const rows = batch.rows.map(row => (row.key === previous.key ? { ...previous, transaction: merged } : row));
+    return { ...batch, rows: rows.filter(row => row.key !== key) };
+  }
+
+  /**
+   * Turn the reviewed batch into what needs saving. Rejected rows and
+   * skipped duplicates are left out.
+   */
+  toPlan(batch: ImportBatch): ImportPlan {
+    const plan: ImportPlan = { add: [], addDuplicates: [], merge: [] };
+
+    for (const row of batch.rows) {
+      if (!row.accepted) continue;
+      const { transaction } = row;
+
+      if (!row.duplicate) {
+        plan.add.push(transaction);
+      } else if (row.duplicateAction === 'import') {
+        plan.addDuplicates.push(transaction);
+      } else if (row.duplicateAction === 'merge') {
+        plan.merge.push({
+          id: row.duplicate.existing.id,
+          updates: {
+            item: transaction.item,
+            amount: transaction.amount,
+            quantity: transaction.quantity,
+            unit: transaction.unit,
+            kind: transaction.kind,
+            originalMessage: transaction.originalMessage,
+            trace: transaction.trace,
+            flags: transaction.flags
+          }
+        });
+      }
+    }
+
+    return plan;
+  }
+
+  // Corrected and review rows keep their correction so the review can show or undo it
+  private applyCorrection(
+    transaction: Transaction,
+    correction?: ItemCorrection
+  ): { transaction: Transaction; correction?: ItemCorrection } {
+    if (!correction || correction.status === 'new') return { transaction };
+    const updated = { ...transaction, item: correction.item, confidence: correction.confidence };
+    return correction.status === 'known' ? { transaction: updated } : { transaction: updated, correction };
+  }
+
+  // Rows with a traced source line range came from the same message; otherwise fall back to time and sender
+  private getMessageKey(transaction: Transaction): string {
+    const lines = transaction.trace?.lines;
+    return lines
+      ? `lines:${lines.start}-${lines.end}`
+      : `${transaction.date.getTime()}|${transaction.sender.toLowerCase()}`;
+  }
+
+  private mapRows(batch: ImportBatch, update: (row: StagedRow) => StagedRow): ImportBatch {
+    return { ...batch, rows: batch.rows.map(update) };
+  }
+}
@@ -0,0 +1,134 @@
+import type { ChatFormat, DateOrder, ImportWatermark, IncrementalChat } from '../types';
+import { messageFingerprint } from '../utils/helpers';
+import { HeaderDetector } from './headerDetector';
+
+// A message header in a chat export: where it starts and what identifies it
+interface MessageMark {
+  line: number;
+  timestamp: Date;
+  fingerprint: string;
+}
+
+export class ImportWatermarkService {
+  private watermarks: ImportWatermark[] = [];
+  private headerDetector = new HeaderDetector();
+  private storageKey = 'whatsapp-import-watermarks';
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  getWatermark(chatKey: string, vendors: string[] = []): ImportWatermark | null {
+    const key = this.getKey(chatKey, vendors);
+    return this.watermarks.find(w => this.getKey(w.chatKey, w.vendors) === key) || null;
+  }
+
+  /**
+   * Drop the messages of a chat export up to and including the last one
+   * imported for this chat and vendors. Without a watermark the chat is kept whole.
+   */
+  skipImported(content: string, chatKey: string, vendors: string[] = [], dateOrder?: DateOrder): IncrementalChat {
+    const format = this.headerDetector.detectFormat(content, dateOrder);
+    const messages = this.findMessages(content, format);
+    const watermark = this.getWatermark(chatKey, vendors);
+    if (!watermark) {
+      return { content, format, skippedMessages: 0, newMessages: messages.length, since: null };
+    }
+
+    // The watermark message itself when it is still in the export, otherwise anything later
+    const matched = messages.map(m => m.fingerprint).lastIndexOf(watermark.fingerprint);
+    let firstNew = matched !== -1 ? matched + 1 : messages.findIndex(m => m.timestamp > watermark.timestamp);
+    if (firstNew === -1) firstNew = messages.length;
+
+    return {
+      content: firstNew < messages.length ? content.split('\n').slice(messages[firstNew].line).join('\n') : '',
+      format,
+      skippedMessages: firstNew,
+      newMessages: messages.length - firstNew,
+      since: watermark.timestamp
+    };
+  }
+
+  /**
+   * Move the chat's watermark to the last message of an imported export.
+   * Importing an older export leaves a later watermark in place.
+   */
+  async recordImport(
+    content: string,
+    chatKey: string,
+    vendors: string[] = [],
+    dateOrder?: DateOrder
+  ): Promise<ImportWatermark | null> {
+    const messages = this.findMessages(content, this.headerDetector.detectFormat(content, dateOrder));
+    const last = messages[messages.length - 1];
+    const existing = this.getWatermark(chatKey, vendors);
+    if (!last || (existing && existing.timestamp > last.timestamp)) return existing;
+
+    const watermark: ImportWatermark = {
+      chatKey,
+      vendors: [...vendors],
+      timestamp: last.timestamp,
+      fingerprint: last.fingerprint,
+      updatedAt: new Date()
+    };
+    this.watermarks = [...this.watermarks.filter(w => w !== existing), watermark];
+    await this.saveToStorage();
+    return watermark;
+  }
+
+  async clear(): Promise<void> {
+    this.watermarks = [];
+    await this.saveToStorage();
+  }
+
+  private findMessages(content: string, format: ChatFormat | null): MessageMark[] {
+    const messages: { line: number; timestamp: Date; sender: string; lines: string[] }[] = [];
+
+    content.split('\n').forEach((line, index) => {
+      const header = this.headerDetector.parseHeader(line, format);
+      if (header) {
+        messages.push({ line: index, timestamp: header.date, sender: header.sender, lines: [header.message] });
+      } else if (messages.length > 0) {
+        // Lines without a header continue the previous message
+        messages[messages.length - 1].lines.push(this.headerDetector.normalizeLine(line));
+      }
+    });
+
+    // The parser gives transactions IDs from the same fingerprint
+    return messages.map(({ line, timestamp, sender, lines }) => ({
+      line,
+      timestamp,
+      fingerprint: messageFingerprint(timestamp, sender, lines)
+    }));
+  }
+
+  private getKey(chatKey: string, vendors: string[]): string {
+    return `${chatKey}|${vendors.map(v => v.toLowerCase()).sort().join(',')}`;
+  }
+
+  // Storage operations
+  private async saveToStorage(): Promise<void> {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.watermarks));
+    } catch (error) {
+      console.error('Failed to save import watermarks to storage:', error);
+      throw new Error('Failed to save import watermarks locally');
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const data = localStorage.getItem(this.storageKey);
+      if (data) {
+        this.watermarks = JSON.parse(data).map((w: any) => ({
+          ...w,
+          timestamp: new Date(w.timestamp),
+          updatedAt: new Date(w.updatedAt)
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load import watermarks from storage:', error);
+      this.watermarks = [];
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import type { ItemAlias } from '../types';
+import { generateId } from '../utils/helpers';
+import { phoneticKey } from '../utils/transliteration';
+
+type AliasInput = Pick<ItemAlias, 'name' | 'bengali' | 'latin'>;
+
+// Spellings seen in the shop chats; the dictionary starts from these until the user edits it
+const DEFAULT_ITEM_ALIASES: AliasInput[] = [
+  { name: 'eggs', bengali: ['ডিম'], latin: ['dim'] },
+  { name: 'milk', bengali: ['দুধ', 'মিল্ক'], latin: ['milk'] },
+  { name: 'flour', bengali: ['আটা'], latin: ['ata'] },
+  { name: 'bread', bengali: ['রোটি'], latin: ['bread'] },
+  { name: 'rice', bengali: ['চাল'], latin: ['chal'] },
+  { name: 'potato', bengali: ['আলো'], latin: ['alo'] },
+  { name: 'ginger', bengali: ['আদা'], latin: ['ada'] },
+  { name: 'onion', bengali: ['পিঁয়াজ'], latin: ['piaz'] },
+  { name: 'garlic', bengali: ['রসুন'], latin: ['rosun'] },
+  { name: 'chili', bengali: ['মরিচ'], latin: [] },
+  { name: 'biscuit', bengali: ['বিস্কুট'], latin: ['biscuit'] },
+  { name: 'chips', bengali: ['চিপস'], latin: ['chips'] },
+  { name: 'tissue', bengali: ['টিস্যু'], latin: ['tissue'] },
+  { name: 'remover', bengali: ['রিমুভার'], latin: [] },
+  { name: 'nimki', bengali: ['নিমকি'], latin: [] },
+  { name: 'freedom', bengali: ['ফ্রিডম'], latin: ['freedom'] },
+  { name: 'coke', bengali: ['কোক'], latin: ['coke'] },
+  { name: 'fanta', bengali: ['ফান্তা'], latin: ['fanta'] },
+  { name: 'yogurt', bengali: ['দই'], latin: ['doi'] },
+  { name: 'oil', bengali: [], latin: ['tel'] },
+  { name: 'koyel', bengali: [], latin: ['koyel'] },
+  { name: 'rc cola', bengali: [], latin: ['rc'] },
+  { name: 'toothpaste', bengali: [], latin: ['paste'] },
+  { name: 'shampoo', bengali: [], latin: ['shampoo'] },
+  { name: 'soap', bengali: [], latin: ['saban'] },
+  { name: 'water', bengali: [], latin: ['pani'] }
+];
+
+export class ItemAliasService {
+  private aliases: ItemAlias[] = [];
+  private lookup = new Map<string, ItemAlias>();
+  private phoneticLookup = new Map<string, ItemAlias>();
+  private storageKey = 'whatsapp-item-aliases';
+
+  // Given aliases are used instead of the saved ones, e.g. in the parser worker, which has no localStorage
+  constructor(aliases?: ItemAlias[]) {
+    if (aliases) {
+      this.aliases = aliases.map(alias => ({ ...alias, bengali: [...alias.bengali], latin: [...alias.latin] }));
+    } else {
+      this.loadFromStorage();
+    }
+    if (this.aliases.length === 0) {
+      this.aliases = DEFAULT_ITEM_ALIASES.map(alias => this.buildAlias(alias));
+    }
+    this.rebuildLookup();
+  }
+
+  getAliases(): ItemAlias[] {
+    return this.aliases
+      .map(alias => ({ ...alias, bengali: [...alias.bengali], latin: [...alias.latin] }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Dictionary name for an item as written, e.g. "ডিম" or "Dim" → "eggs".
+   * Spellings that sound like a known one, e.g. "roshun" for "rosun", resolve too.
+   * Returns null for spellings the dictionary doesn't know.
+   */
+  resolve(item: string): string | null {
+    const alias = this.lookup.get(this.getSpellingKey(item)) ?? this.phoneticLookup.get(phoneticKey(item));
+    return alias?.name ?? null;
+  }
+
+  // Whether an item as written is one of the alias's spellings or its name
+  matches(alias: Pick<ItemAlias, 'name' | 'bengali' | 'latin'>, item: string): boolean {
+    const key = this.getSpellingKey(item);
+    return [alias.name, ...alias.bengali, ...alias.latin].some(spelling => this.getSpellingKey(spelling) === key);
+  }
+
+  // CRUD Operations
+  async createAlias(input: AliasInput): Promise<ItemAlias> {
+    const alias = this.buildAlias(this.cleanInput(input));
+    this.validate(alias, this.aliases);
+
+    this.aliases.push(alias);
+    await this.saveToStorage();
+    return alias;
+  }
+
+  async updateAlias(id: string, updates: Partial<AliasInput>): Promise<ItemAlias> {
+    const index = this.aliases.findIndex(a => a.id === id);
+    if (index === -1) {
+      throw new Error('Alias not found');
+    }
+
+    const updatedAlias: ItemAlias = {
+      ...this.aliases[index],
+      ...this.cleanInput({ ...this.aliases[index], ...updates }),
+      updatedAt: new Date()
+    };
+    this.validate(updatedAlias, this.aliases.filter(a => a.id !== id));
+
+    this.aliases[index] = updatedAlias;
+    await this.saveToStorage();
+    return updatedAlias;
+  }
+
+  async deleteAlias(id: string): Promise<void> {
+    const index = this.aliases.findIndex(a => a.id === id);
+    if (index === -1) {
+      throw new Error('Alias not found');
+    }
+
+    this.aliases.splice(index, 1);
+    await this.saveToStorage();
+  }
+
+  async resetToDefaults(): Promise<void> {
+    this.aliases = DEFAULT_ITEM_ALIASES.map(alias => this.buildAlias(alias));
+    await this.saveToStorage();
+  }
+
+  // Import/Export
+  exportAliases(): string {
+    return JSON.stringify(
+      this.getAliases().map(({ name, bengali, latin }) => ({ name, bengali, latin })),
+      null,
+      2
+    );
+  }
+
+  /**
+   * Add aliases from an exported dictionary. Entries with a name already in the
+   * dictionary gain their spellings. Returns the number of entries read.
+   */
+  async importAliases(jsonData: string): Promise<number> {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(jsonData);
+    } catch {
+      throw new Error('Invalid alias file');
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error('Invalid alias file');
+    }
+
+    const aliases = [...this.aliases];
+    for (const entry of entries) {
+      if (!entry || typeof entry.name !== 'string') {
+        throw new Error('Every alias needs a name');
+      }
+      const input = this.cleanInput({
+        name: entry.name,
+        bengali: Array.isArray(entry.bengali) ? entry.bengali : [],
+        latin: Array.isArray(entry.latin) ? entry.latin : []
+      });
+
+      const index = aliases.findIndex(a => a.name.toLowerCase() === input.name.toLowerCase());
+      const alias = index === -1
+        ? this.buildAlias(input)
+        : {
+          ...aliases[index],
+          bengali: [...new Set([...aliases[index].bengali, ...input.bengali])],
+          latin: [...new Set([...aliases[index].latin, ...input.latin])],
+          updatedAt: new Date()
+        };
+      this.validate(alias, aliases.filter((_, i) => i !== index));
+
+      if (index === -1) {
+        aliases.push(alias);
+      } else {
+        aliases[index] = alias;
+      }
+    }
+
+    this.aliases = aliases;
+    await this.saveToStorage();
+    return entries.length;
+  }
+
+  private cleanInput(input: AliasInput): AliasInput {
+    const clean = (spellings: string[]) =>
+      [...new Set(spellings.map(s => String(s).normalize('NFC').trim().toLowerCase()).filter(Boolean))];
+    return { name: input.name.trim().toLowerCase(), bengali: clean(input.bengali), latin: clean(input.latin) };
+  }
+
+  private validate(alias: ItemAlias, others: ItemAlias[]): void {
+    if (!alias.name) {
+      throw new Error('Alias name is required');
+    }
+    if (alias.bengali.length === 0 && alias.latin.length === 0) {
+      throw new Error('Add at least one spelling');
+    }
+    if (alias.bengali.some(s => !/^[\u0980-\u09FF\s]+$/.test(s))) {
+      throw new Error('Bengali spellings must be written in Bengali script');
+    }
+    if (alias.latin.some(s => !/^[a-z\s]+$/.test(s))) {
+      throw new Error('Latin spellings must be written in Latin letters');
+    }
+    if (others.some(a => a.name.toLowerCase() === alias.name.toLowerCase())) {
+      throw new Error('Alias with this name already exists');
+    }
+
+    for (const spelling of [...alias.bengali, ...alias.latin]) {
+      const owner = others.find(a => this.matches({ ...a, name: '' }, spelling));
+      if (owner) {
+        throw new Error(`"${spelling}" is already a spelling of ${owner.name}`);
+      }
+    }
+  }
+
+  private buildAlias(input: AliasInput): ItemAlias {
+    return {
+      id: generateId(),
+      name: input.name,
+      bengali: [...input.bengali],
+      latin: [...input.latin],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  // Spellings match regardless of case, spacing, digits and punctuation
+  private getSpellingKey(spelling: string): string {
+    return spelling.normalize('NFC').toLowerCase().replace(/[^a-z\u0980-\u09FF]/g, '');
+  }
+
+  private rebuildLookup(): void {
+    this.lookup = new Map();
+    this.phoneticLookup = new Map();
+    for (const alias of this.aliases) {
+      for (const spelling of [...alias.bengali, ...alias.latin]) {
+        this.lookup.set(this.getSpellingKey(spelling), alias);
+        const key = phoneticKey(spelling);
+        // Where two items sound alike, the first keeps the key
+        if (key && !this.phoneticLookup.has(key)) {
+          this.phoneticLookup.set(key, alias);
+        }
+      }
+    }
+  }
+
+  // Storage operations
+  private async saveToStorage(): Promise<void> {
+    this.rebuildLookup();
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.aliases));
+    } catch (error) {
+      console.error('Failed to save item aliases to storage:', error);
+      throw new Error('Failed to save item aliases locally');
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const data = localStorage.getItem(this.storageKey);
+      if (data) {
+        this.aliases = JSON.parse(data).map((a: any) => ({
+          ...a,
+          bengali: a.bengali || [],
+          latin: a.latin || [],
+          createdAt: new Date(a.createdAt),
+          updatedAt: new Date(a.updatedAt)
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load item aliases from storage:', error);
+      this.aliases = [];
+    }
+  }
+}
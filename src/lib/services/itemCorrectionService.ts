@@ -0,0 +1,98 @@
+import type { ItemCorrection, ItemCorrectionThresholds, Transaction } from '../types';
+import { DEFAULT_ITEM_CORRECTION_THRESHOLDS, levenshteinDistance } from '../utils/helpers';
+import { phoneticKey, romanizeBengali } from '../utils/transliteration';
+import { ItemAliasService } from './itemAliasService';
+
+// A known spelling and the item name it stands for
+interface VocabularyEntry {
+  name: string;
+  key: string;
+  phonetic: string;
+}
+
+export class ItemCorrectionService {
+  private itemAliases: ItemAliasService;
+  private thresholds: ItemCorrectionThresholds;
+  private savedItems: string[] = [];
+
+  constructor(
+    itemAliases: ItemAliasService = new ItemAliasService(),
+    thresholds: ItemCorrectionThresholds = DEFAULT_ITEM_CORRECTION_THRESHOLDS
+  ) {
+    this.itemAliases = itemAliases;
+    this.thresholds = { ...thresholds };
+  }
+
+  getThresholds(): ItemCorrectionThresholds {
+    return { ...this.thresholds };
+  }
+
+  /**
+   * Items of saved transactions join the vocabulary. Names that were saved
+   * while still waiting for review are left out, so a typo doesn't become known.
+   */
+  setSavedTransactions(transactions: Transaction[]): void {
+    this.savedItems = [...new Set(
+      transactions
+        .filter(t => t.confidence === undefined || t.confidence >= this.thresholds.autoCorrect)
+        .map(t => t.item.trim())
+        .filter(Boolean)
+    )];
+  }
+
+  /**
+   * Compare an item with the known vocabulary, e.g. "cokr" → coke. Bengali
+   * spellings are compared in Latin letters, so "কোকর" also finds coke.
+   */
+  correct(item: string): ItemCorrection {
+    const original = item.trim();
+    const key = this.getKey(original);
+    const phonetic = phoneticKey(original);
+    const vocabulary = this.getVocabulary();
+
+    // Another script or spelling of a known item is grouped with it, not corrected
+    if (this.itemAliases.resolve(original) || vocabulary.some(entry => entry.key === key || entry.phonetic === phonetic)) {
+      return { original, item: original, confidence: 1, status: 'known' };
+    }
+    // One letter off in a very short word is as likely another item as a typo
+    if (key.length < 3) {
+      return { original, item: original, confidence: 0, status: 'new' };
+    }
+
+    const best = new Map<string, number>();
+    for (const entry of vocabulary) {
+      const similarity = 1 - levenshteinDistance(key, entry.key) / Math.max(key.length, entry.key.length);
+      best.set(entry.name, Math.max(best.get(entry.name) ?? 0, similarity));
+    }
+    const [closest, runnerUp] = [...best.entries()].sort((a, b) => b[1] - a[1]);
+    if (!closest || closest[1] < this.thresholds.review) {
+      return { original, item: original, confidence: closest?.[1] ?? 0, status: 'new' };
+    }
+
+    const [suggestion, confidence] = closest;
+    // Two items equally close can't be told apart without asking
+    const unambiguous = !runnerUp || runnerUp[1] < confidence;
+    return confidence >= this.thresholds.autoCorrect && unambiguous
+      ? { original, item: suggestion, suggestion, confidence, status: 'corrected' }
+      : { original, item: original, suggestion, confidence, status: 'review' };
+  }
+
+  // Alias names and spellings, then saved item names
+  private getVocabulary(): VocabularyEntry[] {
+    const entries: VocabularyEntry[] = [];
+    for (const alias of this.itemAliases.getAliases()) {
+      for (const spelling of [alias.name, ...alias.bengali, ...alias.latin]) {
+        entries.push({ name: alias.name, key: this.getKey(spelling), phonetic: phoneticKey(spelling) });
+      }
+    }
+    for (const item of this.savedItems) {
+      entries.push({ name: this.itemAliases.resolve(item) ?? item, key: this.getKey(item), phonetic: phoneticKey(item) });
+    }
+    return entries.filter(entry => entry.key);
+  }
+
+  // Latin letters only, so case, spacing, digits and script don't count as differences
+  private getKey(item: string): string {
+    return romanizeBengali(item).replace(/[^a-z]/g, '');
+  }
+}
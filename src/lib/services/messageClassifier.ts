@@ -0,0 +1,104 @@
+import type { ChatFormat, MessageLabel, MessageLabelCounts } from '../types';
+import { HeaderDetector } from './headerDetector';
+
+// Notices WhatsApp writes under a sender's name, mostly in iOS exports
+const SYSTEM_PATTERNS = [
+  /messages and calls are end-to-end encrypted/i,
+  /^your security code with .+ changed/i,
+  /changed (?:their phone number|the subject|this group's icon|the group description)/i,
+  /^(?:.+ )?(?:created group|joined using this group's invite link)/i,
+  /turned (?:on|off) disappearing messages/i
+];
+
+const DELETED_PATTERNS = [
+  /^(?:this message was deleted|you deleted this message)\.?$/i,
+  /^(?:এই মেসেজটি মুছে ফেলা হয়েছে|আপনি এই মেসেজটি মুছে ফেলেছেন)$/
+];
+
+// "null" is written for media WhatsApp couldn't export, such as view-once photos
+const MEDIA_PATTERNS = [
+  /^<media omitted>$/i,
+  /^(?:image|video|audio|sticker|gif|document|contact card) omitted$/i,
+  /^<attached: [^>]+>$/i,
+  /\(file attached\)$/i,
+  /^null$/i
+];
+
+const EDITED_MARKER = /\s*<(?:this message was edited|এই মেসেজটি এডিট করা হয়েছে)>\s*/gi;
+
+export class MessageClassifier {
+  private headerDetector = new HeaderDetector();
+
+  /**
+   * Label a message by its text: system notices, deleted messages, media
+   * placeholders and edited messages are told apart from normal ones
+   */
+  classify(message: string): MessageLabel {
+    const text = this.headerDetector.normalizeLine(message);
+    if (SYSTEM_PATTERNS.some(pattern => pattern.test(text))) return 'system';
+    if (DELETED_PATTERNS.some(pattern => pattern.test(text))) return 'deleted';
+    if (MEDIA_PATTERNS.some(pattern => pattern.test(text))) return 'media';
+    if (this.isEdited(text)) return 'edited';
+    return 'normal';
+  }
+
+  // Whether items are read from messages with this label
+  isReadable(label: MessageLabel | null): boolean {
+    return label === 'normal' || label === 'edited';
+  }
+
+  /**
+   * Label every line of a chat export with the message it belongs to.
+   * Sender-less system notices are messages of their own; lines before the
+   * first message and content-free lines such as "null" get no label.
+   */
+  classifyLines(lines: string[], format?: ChatFormat | null): { labels: (MessageLabel | null)[]; counts: MessageLabelCounts } {
+    const labels: (MessageLabel | null)[] = lines.map(() => null);
+    const counts: MessageLabelCounts = { system: 0, deleted: 0, media: 0, edited: 0, normal: 0 };
+    let current: { label: MessageLabel; lines: number[] } | null = null;
+
+    const finish = () => {
+      if (!current) return;
+      current.lines.forEach(index => labels[index] = current!.label);
+      counts[current.label]++;
+      current = null;
+    };
+
+    lines.forEach((rawLine, index) => {
+      const line = this.headerDetector.normalizeLine(rawLine);
+      const header = this.headerDetector.parseHeader(line, format);
+
+      if (header) {
+        finish();
+        current = { label: this.classify(header.message), lines: [index] };
+      } else if (this.headerDetector.isSystemNotice(line, format)) {
+        finish();
+        labels[index] = 'system';
+        counts.system++;
+      } else if (current && line) {
+        // The edited marker ends the message, wherever its last line is
+        if (current.label === 'normal' && this.isEdited(line)) current.label = 'edited';
+        if (!this.isContentFree(line)) current.lines.push(index);
+      }
+    });
+    finish();
+
+    return { labels, counts };
+  }
+
+  // Message text without the edited marker
+  stripMarkers(text: string): string {
+    return text.replace(EDITED_MARKER, ' ').trim();
+  }
+
+  // Whether a line carries the edited marker
+  isEdited(text: string): boolean {
+    EDITED_MARKER.lastIndex = 0;
+    return EDITED_MARKER.test(text);
+  }
+
+  // Lines that carry nothing to read: "null" or an edited marker on its own
+  isContentFree(line: string): boolean {
+    return /^null$/i.test(line) || !this.stripMarkers(line);
+  }
+}
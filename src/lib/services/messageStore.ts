@@ -0,0 +1,124 @@
+import type { DateOrder, RawMessage } from '../types';
+import { generateId } from '../utils/helpers';
+import { HeaderDetector } from './headerDetector';
+
+export class MessageStore {
+  private messages: RawMessage[] = [];
+  private headerDetector = new HeaderDetector();
+  private storageKey = 'whatsapp-messages';
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  getMessages(sourceFile?: string): RawMessage[] {
+    return this.messages.filter(m => !sourceFile || m.sourceFile === sourceFile);
+  }
+
+  getSourceFiles(): string[] {
+    return [...new Set(this.messages.map(m => m.sourceFile))];
+  }
+
+  /**
+   * Split a chat export into messages and keep the ones not stored yet.
+   * Returns the number of messages added.
+   */
+  async addChat(content: string, sourceFile: string, dateOrder?: DateOrder): Promise<number> {
+    const known = new Set(this.messages.map(m => this.getMessageKey(m)));
+    const added = this.splitMessages(content, sourceFile, dateOrder).filter(message => {
+      const key = this.getMessageKey(message);
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    });
+
+    if (added.length > 0) {
+      this.messages.push(...added);
+      await this.saveToStorage();
+    }
+    return added.length;
+  }
+
+  async deleteSourceFile(sourceFile: string): Promise<void> {
+    this.messages = this.messages.filter(m => m.sourceFile !== sourceFile);
+    await this.saveToStorage();
+  }
+
+  async clear(): Promise<void> {
+    this.messages = [];
+    await this.saveToStorage();
+  }
+
+  /**
+   * Write messages back out as an Android-style export ("dd/mm/yyyy, hh:mm - Name: text")
+   * that the chat parsers read with a day-first date order
+   */
+  toChatText(messages: RawMessage[]): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return [...messages]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(({ timestamp: t, sender, text }) =>
+        `${pad(t.getDate())}/${pad(t.getMonth() + 1)}/${t.getFullYear()}, ${pad(t.getHours())}:${pad(t.getMinutes())} - ${sender}: ${text}`
+      )
+      .join('\n');
+  }
+
+  private splitMessages(content: string, sourceFile: string, dateOrder?: DateOrder): RawMessage[] {
+    const format = this.headerDetector.detectFormat(content, dateOrder);
+    const messages: RawMessage[] = [];
+    const importedAt = new Date();
+    let current: RawMessage | null = null;
+
+    for (const line of content.split('\n')) {
+      const header = this.headerDetector.parseHeader(line, format);
+      if (header) {
+        current = {
+          id: generateId(),
+          timestamp: header.date,
+          sender: header.sender,
+          text: header.message.trimEnd(),
+          sourceFile,
+          importedAt
+        };
+        messages.push(current);
+      } else if (current) {
+        // Lines without a header continue the previous message. Blank lines are
+        // kept, as one ends a receipt's বিবরণ block
+        current.text += '\n' + line.replace(/\r$/, '');
+      }
+    }
+
+    // Blank lines before the next message end nothing, so they aren't kept
+    return messages.map(message => ({ ...message, text: message.text.trimEnd() }));
+  }
+
+  private getMessageKey(message: RawMessage): string {
+    return `${message.timestamp.getTime()}|${message.sender.toLowerCase()}|${message.text}`;
+  }
+
+  // Storage operations
+  private async saveToStorage(): Promise<void> {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.messages));
+    } catch (error) {
+      console.error('Failed to save messages to storage:', error);
+      throw new Error('Failed to save messages locally');
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const data = localStorage.getItem(this.storageKey);
+      if (data) {
+        this.messages = JSON.parse(data).map((m: any) => ({
+          ...m,
+          timestamp: new Date(m.timestamp),
+          importedAt: new Date(m.importedAt)
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load messages from storage:', error);
+      this.messages = [];
+    }
+  }
+}
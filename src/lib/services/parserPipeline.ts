@@ -0,0 +1,353 @@
+import type {
+  Transaction,
+  ParseResult,
+  ParseConfig,
+  ParseContext,
+  ParserPlugin,
+  ParserStage,
+  ParseTrace,
+  ChatMessage,
+  NormalisedMessage,
+  ChatParseOptions,
+  ParseControl,
+  DateOrder,
+  ExtractedText,
+  ItemPairing,
+  MessageLabel,
+  MessageLabelCounts,
+  ShopReceipt
+} from '../types';
+import { assignFingerprintIds, DEFAULT_PARSE_CONFIG, generateId, isVendorSender, messageFingerprint, PARSER_VERSION, UNALLOCATED_ITEM } from '../utils/helpers';
+import { ReceiptParser } from './receiptParser';
+import { ReconciliationService } from './reconciliationService';
+import { MessageClassifier } from './messageClassifier';
+import { ItemAliasService } from './itemAliasService';
+import { createDefaultPlugins, matchTransactionPatterns } from './parserPlugins';
+
+// A config change; stages left out keep their plugins
+export type ParseConfigUpdate = Partial<Omit<ParseConfig, 'stages'>> & { stages?: Partial<ParseConfig['stages']> };
+
+type StagePlugins = { [S in ParserStage]: Extract<ParserPlugin, { stage: S }>[] };
+
+export class ParserPipeline {
+  private plugins = new Map<string, ParserPlugin>();
+  private receiptParser = new ReceiptParser();
+  private reconciliationService = new ReconciliationService();
+  private messageClassifier = new MessageClassifier();
+  private itemAliases: ItemAliasService;
+  private config: ParseConfig;
+
+  constructor(itemAliases: ItemAliasService = new ItemAliasService(), config: ParseConfigUpdate = {}) {
+    this.itemAliases = itemAliases;
+    this.config = this.mergeConfig(DEFAULT_PARSE_CONFIG, config);
+    for (const plugin of createDefaultPlugins()) {
+      this.register(plugin);
+    }
+  }
+
+  /**
+   * Add a plugin, replacing any of the same stage and name. It runs once the
+   * config lists its name under its stage.
+   */
+  register(plugin: ParserPlugin): void {
+    this.plugins.set(`${plugin.stage}:${plugin.name}`, plugin);
+  }
+
+  getConfig(): ParseConfig {
+    return this.mergeConfig(this.config, {});
+  }
+
+  updateConfig(config: ParseConfigUpdate): void {
+    this.config = this.mergeConfig(this.config, config);
+  }
+
+  /**
+   * The item/amount pairs the configured transaction patterns find in a text
+   */
+  testPattern(text: string): { item: string; amount: number }[] {
+    const context = this.createContext({});
+    const plugins = this.getPlugins(context.config);
+    const normalised = plugins.normalisation.reduce((line, plugin) => plugin.normalise(line, context), text);
+
+    return matchTransactionPatterns(normalised, context.config.transactionPatterns)
+      .map(match => ({ item: context.itemName(match.item), amount: match.amount }));
+  }
+
+  /**
+   * Parse a chat export in one go. Only messages from the given vendors are
+   * turned into transactions; without a vendor list every sender is parsed.
+   */
+  parse(content: string, options: ChatParseOptions = {}): ParseResult {
+    const steps = this.run(content, options);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  }
+
+  /**
+   * Same as parse. With a control the messages are parsed in chunks of lines,
+   * reporting progress and giving way between chunks so the parse can be cancelled.
+   */
+  async parseFile(content: string, options: ChatParseOptions = {}, control?: ParseControl): Promise<ParseResult> {
+    const steps = this.run(content, options, control);
+    let step = steps.next();
+    while (!step.done) {
+      control?.onProgress?.(step.value);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      step = steps.next();
+    }
+    control?.onProgress?.(1);
+    return step.value;
+  }
+
+  // Runs the stages over every message, yielding the fraction of lines parsed between chunks
+  private *run(content: string, options: ChatParseOptions, control?: ParseControl): Generator<number, ParseResult> {
+    const startTime = performance.now();
+    const lines = content.split('\n');
+    const chunkSize = control?.chunkSize ?? 2000;
+    const context = this.createContext(options);
+    const plugins = this.getPlugins(context.config);
+
+    let messages: ChatMessage[] = [];
+    for (const plugin of plugins.segmentation) {
+      const segmented = plugin.segment(lines, context);
+      if (segmented) {
+        messages = segmented;
+        break;
+      }
+    }
+
+    const transactions: Transaction[] = [];
+    const receipts: ShopReceipt[] = [];
+    const fingerprints = new Map<string, number>();
+    const counts: MessageLabelCounts = { system: 0, deleted: 0, media: 0, edited: 0, normal: 0 };
+    let lineCount = lines.length;
+    let nextChunk = chunkSize;
+
+    for (const message of messages) {
+      const start = message.lineNumbers[0] - 1;
+      if (control && start >= nextChunk) {
+        yield start / lines.length;
+        nextChunk = start - (start % chunkSize) + chunkSize;
+      }
+
+      // A cancelled parse stops at the next message, so the last one is read whole
+      if (control?.signal?.aborted) {
+        lineCount = start;
+        break;
+      }
+
+      // System notices, deleted messages and media placeholders are never read for items
+      const label = message.label ?? this.classify(message, plugins, context);
+      counts[label]++;
+      if (!this.messageClassifier.isReadable(label) || !isVendorSender(message.sender, context.vendors)) continue;
+
+      try {
+        const normalised = {
+          ...message,
+          text: message.lines.map(line => plugins.normalisation.reduce((text, plugin) => plugin.normalise(text, context), line))
+        };
+        const read: Transaction[] = [];
+        for (const text of this.extract(normalised, plugins, context)) {
+          if (text.receipt) receipts.push(text.receipt);
+          read.push(...this.toTransactions(text, message, plugins, context));
+        }
+        // IDs follow the message's own content, so importing it again gives the same IDs
+        const fingerprint = messageFingerprint(message.date, message.sender, message.lines);
+        const occurrence = fingerprints.get(fingerprint) ?? 0;
+        fingerprints.set(fingerprint, occurrence + 1);
+        transactions.push(...assignFingerprintIds(read, fingerprint, occurrence));
+      } catch (error) {
+        context.errors.push({
+          line: message.lineNumbers[0],
+          message: error instanceof Error ? error.message : 'Parse error',
+          originalText: message.lines.join('\n')
+        });
+      }
+    }
+
+    const partial = lineCount < lines.length;
+
+    return {
+      transactions,
+      errors: context.errors,
+      summary: {
+        totalLines: lineCount,
+        successfulTransactions: transactions.length,
+        failedLines: context.errors.length,
+        duplicatesSkipped: 0,
+        processingTime: performance.now() - startTime,
+        detectedFormat: context.format,
+        dateOrder: context.format?.dateOrder,
+        messageLabels: counts,
+        ...(partial ? { partial } : {})
+      },
+      suspiciousTransactions: this.reconciliationService.reconcile(receipts),
+      receipts
+    };
+  }
+
+  private classify(message: ChatMessage, plugins: StagePlugins, context: ParseContext): MessageLabel {
+    for (const plugin of plugins.classification) {
+      const label = plugin.classify(message, context);
+      if (label) return label;
+    }
+    return 'normal';
+  }
+
+  // Text to read items from; a message no plugin recognises has none
+  private extract(message: NormalisedMessage, plugins: StagePlugins, context: ParseContext): ExtractedText[] {
+    for (const plugin of plugins.extraction) {
+      const extracted = plugin.extract(message, context);
+      if (extracted) return extracted;
+    }
+    return [];
+  }
+
+  private pair(extracted: ExtractedText, plugins: StagePlugins, context: ParseContext): ItemPairing | null {
+    for (const plugin of plugins.pairing) {
+      const pairing = plugin.pair(extracted, context);
+      if (pairing) return pairing;
+    }
+    return null;
+  }
+
+  /**
+   * Pair the items of extracted text and keep the transactions that pass
+   * validation. Whatever the item prices don't explain is kept as an
+   * unallocated line, flagged for the user to assign, rather than guessed.
+   * A পরিশোধ on a receipt becomes a separate payment entry.
+   */
+  private toTransactions(extracted: ExtractedText, message: ChatMessage, plugins: StagePlugins, context: ParseContext): Transaction[] {
+    const transactions: Transaction[] = [];
+    const pairing = this.pair(extracted, plugins, context);
+    const items = pairing?.items ?? [];
+    const decisions = [...(pairing?.decisions ?? [])];
+    const unallocated = this.getUnallocated(items, extracted.purchaseTotal, pairing?.unmatched ?? []);
+
+    if (unallocated > 0) {
+      decisions.push(extracted.purchaseTotal > 0
+        ? `${unallocated} of কেনা ${extracted.purchaseTotal} isn't explained by the item prices, so it is kept unallocated`
+        : `${unallocated} has no item, so it is kept unallocated`);
+    } else if (unallocated < 0) {
+      decisions.push(`The item prices add up to ${extracted.purchaseTotal - unallocated}, more than কেনা ${extracted.purchaseTotal}`);
+    }
+
+    const trace: ParseTrace = {
+      parserVersion: PARSER_VERSION,
+      rule: pairing?.rule ?? 'unallocated',
+      lines: extracted.lines,
+      tokens: pairing?.tokens ?? [],
+      decisions,
+      ...(pairing?.unpriced?.length ? { unpriced: pairing.unpriced } : {})
+    };
+    const toTransaction = (item: ItemPairing['items'][number], overrides: Partial<Transaction> = {}): Transaction => ({
+      id: generateId(),
+      date: new Date(message.date),
+      sender: message.sender,
+      item: item.item,
+      amount: item.amount,
+      quantity: item.quantity,
+      unit: item.unit,
+      kind: 'purchase',
+      originalMessage: extracted.originalMessage,
+      trace,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides
+    });
+
+    for (const item of items) {
+      transactions.push(toTransaction(item, unallocated < 0 ? { flags: ['total_mismatch'] } : {}));
+    }
+    if (unallocated > 0) {
+      transactions.push(toTransaction(
+        { item: UNALLOCATED_ITEM, amount: unallocated },
+        { flags: ['total_mismatch'], trace: { ...trace, rule: 'unallocated' } }
+      ));
+    }
+
+    const payment = extracted.receipt ? this.receiptParser.toPaymentTransaction(extracted.receipt) : null;
+    if (payment) transactions.push({ ...payment, trace: { ...payment.trace!, lines: extracted.lines } });
+
+    return transactions.filter(transaction => {
+      for (const plugin of plugins.validation) {
+        const error = plugin.validate(transaction, context);
+        if (error) {
+          context.errors.push({ line: extracted.lines.start, message: error, originalText: extracted.originalMessage });
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * The part of the total the item prices don't explain: what is left of the
+   * কেনা, or without one the amounts no item was found for. Negative when the
+   * prices add up to more than the কেনা.
+   */
+  private getUnallocated(items: ItemPairing['items'], purchaseTotal: number, unmatched: number[]): number {
+    const priced = items.reduce((sum, item) => sum + item.amount, 0);
+    const unexplained = purchaseTotal > 0 ? purchaseTotal - priced : unmatched.reduce((sum, amount) => sum + amount, 0);
+    return Math.round(unexplained * 100) / 100;
+  }
+
+  private createContext(options: ChatParseOptions): ParseContext {
+    const config = this.getConfig();
+    const itemMap = new Map(Object.entries(config.itemMap ?? {}).map(([spelling, name]) => [spelling.toLowerCase(), name]));
+
+    return {
+      config,
+      vendors: options.vendors ?? config.senderFilter,
+      dateOrder: options.dateOrder ?? this.getDateOrder(config.dateFormat),
+      format: null,
+      errors: [],
+      itemName: word => {
+        const clean = word.toLowerCase().replace(/[^a-zA-Z\u0980-\u09FF]/g, '');
+        return itemMap.get(clean) ?? this.itemAliases.resolve(clean) ?? clean;
+      }
+    };
+  }
+
+  private getPlugins(config: ParseConfig): StagePlugins {
+    const pick = <S extends ParserStage>(stage: S): Extract<ParserPlugin, { stage: S }>[] =>
+      config.stages[stage].map(name => {
+        const plugin = this.plugins.get(`${stage}:${name}`);
+        if (!plugin) throw new Error(`No ${stage} plugin named "${name}"`);
+        return plugin as Extract<ParserPlugin, { stage: S }>;
+      });
+
+    return {
+      segmentation: pick('segmentation'),
+      classification: pick('classification'),
+      normalisation: pick('normalisation'),
+      extraction: pick('extraction'),
+      pairing: pick('pairing'),
+      validation: pick('validation')
+    };
+  }
+
+  // "MM/DD/YYYY" reads dates month first and "DD/MM/YYYY" day first; anything else is detected
+  private getDateOrder(dateFormat: string): DateOrder | undefined {
+    const format = dateFormat.toUpperCase();
+    if (format.startsWith('MM')) return 'mdy';
+    if (format.startsWith('DD')) return 'dmy';
+    return undefined;
+  }
+
+  private mergeConfig(base: ParseConfig, update: ParseConfigUpdate): ParseConfig {
+    const stages = { ...base.stages };
+    for (const [stage, names] of Object.entries(update.stages ?? {}) as [ParserStage, string[] | undefined][]) {
+      if (names) stages[stage] = [...names];
+    }
+
+    return {
+      ...base,
+      ...update,
+      stages,
+      transactionPatterns: [...(update.transactionPatterns ?? base.transactionPatterns)],
+      itemMap: (update.itemMap ?? base.itemMap) && { ...(update.itemMap ?? base.itemMap) }
+    };
+  }
+}
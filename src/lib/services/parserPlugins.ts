@@ -0,0 +1,323 @@
+import type { ChatMessage, ExtractedText, ItemPairing, ParseContext, ParseRule, ParserPlugin } from '../types';
+import { HeaderDetector } from './headerDetector';
+import { MessageClassifier } from './messageClassifier';
+import { BengaliNumberParser } from './bengaliNumberParser';
+import { QuantityParser } from './quantityParser';
+import { ReceiptParser } from './receiptParser';
+import type { ItemQuantity } from './quantityParser';
+
+// A free-text purchase matched by one of the configured transaction patterns
+export interface PatternMatch {
+  item: string;
+  amount: number;
+  pattern: RegExp;
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the item/amount pairs in a text with the given patterns, which need
+ * named item and amount groups. Earlier patterns win where matches overlap.
+ */
+export function matchTransactionPatterns(text: string, patterns: RegExp[]): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+
+  for (const pattern of patterns) {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    for (const match of text.matchAll(global)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const item = match.groups?.item;
+      const amount = Number(match.groups?.amount);
+      if (!item || !amount || matches.some(m => start < m.end && end > m.start)) continue;
+      matches.push({ item, amount, pattern, start, end });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The plugins every pipeline starts with. WhatsApp exports are split into
+ * messages; shop receipts and "কেনা … বিবরণ …" messages are read by default,
+ * and the 'lines' and 'patterns' plugins can be configured for free-text chats.
+ */
+export function createDefaultPlugins(): ParserPlugin[] {
+  const headerDetector = new HeaderDetector();
+  const messageClassifier = new MessageClassifier();
+  const numberParser = new BengaliNumberParser();
+  const quantityParser = new QuantityParser();
+  const receiptParser = new ReceiptParser();
+
+  return [
+    {
+      stage: 'segmentation',
+      name: 'whatsapp',
+      segment: (lines, context) => {
+        context.format = headerDetector.detectFormat(lines.join('\n'), context.dateOrder);
+        if (!context.format) return null;
+
+        const messages: ChatMessage[] = [];
+        let current: ChatMessage | null = null;
+
+        lines.forEach((rawLine, index) => {
+          const line = headerDetector.normalizeLine(rawLine);
+          const header = headerDetector.parseHeader(line, context.format);
+          const notice = header ? null : headerDetector.parseNotice(line, context.format);
+
+          if (header) {
+            current = { date: header.date, sender: header.sender, lines: [header.message], lineNumbers: [index + 1] };
+            messages.push(current);
+          } else if (notice) {
+            // A system notice ends the message before it
+            current = { date: notice.date, sender: '', lines: [notice.message], lineNumbers: [index + 1], label: 'system' };
+            messages.push(current);
+          } else if (current) {
+            current.lines.push(line);
+            current.lineNumbers.push(index + 1);
+          } else if (line) {
+            context.errors.push({ line: index + 1, message: 'Line is not part of any message', originalText: line });
+          }
+        });
+
+        return messages;
+      }
+    },
+    {
+      stage: 'classification',
+      name: 'whatsapp',
+      classify: message => {
+        const label = messageClassifier.classify(message.lines[0]);
+        // The edited marker ends the message, wherever its last line is
+        return label === 'normal' && message.lines.slice(1).some(line => messageClassifier.isEdited(line)) ? 'edited' : label;
+      }
+    },
+    {
+      stage: 'normalisation',
+      name: 'markers',
+      normalise: line => (messageClassifier.isContentFree(line) ? '' : messageClassifier.stripMarkers(line))
+    },
+    {
+      stage: 'normalisation',
+      name: 'numbers',
+      normalise: line => numberParser.convertText(line)
+    },
+    {
+      stage: 'normalisation',
+      name: 'currency',
+      normalise: (line, context) => {
+        const withoutWords = line.replace(/টাকা|taka/g, '');
+        const symbol = context.config.currencySymbol;
+        return symbol ? withoutWords.split(symbol).join('') : withoutWords;
+      }
+    },
+    {
+      stage: 'extraction',
+      name: 'receipt',
+      extract: message => {
+        if (!/লেনদেন\s+রেকর্ড/.test(message.text[0])) return null;
+
+        // Placeholders inside a receipt are left out rather than blanked, so they don't end its description
+        const kept = message.text.map((_, i) => i).filter(i => message.text[i] || !message.lines[i]);
+        const receipt = receiptParser.parseReceipt(kept.map(i => message.text[i]).join('\n'), message.date, message.sender);
+        if (!receipt) return [];
+
+        const written = kept.filter(i => message.text[i]);
+        const originalMessage = kept.map(i => message.lines[i]).join('\n');
+        return [{
+          // Without a কেনা the description only explains a payment
+          text: receipt.purchase > 0 ? receipt.description : '',
+          purchaseTotal: receipt.purchase,
+          lines: { start: message.lineNumbers[0], end: message.lineNumbers[written[written.length - 1] ?? 0] },
+          originalMessage,
+          receipt: { ...receipt, originalMessage }
+        }];
+      }
+    },
+    {
+      stage: 'extraction',
+      name: 'description',
+      extract: message => {
+        const found: ExtractedText[] = [];
+
+        message.text.forEach((text, i) => {
+          const parts = text.split('বিবরণ');
+          if (parts.length < 2) return;
+
+          const purchase = text.match(/কেনা\s+(\d+)/);
+          found.push({
+            text: parts[1].split('moriom')[0].trim(),
+            purchaseTotal: purchase ? parseFloat(purchase[1]) : 0,
+            lines: { start: message.lineNumbers[i], end: message.lineNumbers[i] },
+            originalMessage: message.lines[i]
+          });
+        });
+
+        return found.length > 0 ? found : null;
+      }
+    },
+    {
+      stage: 'extraction',
+      name: 'lines',
+      extract: message => message.text
+        .map((text, i) => ({
+          text,
+          purchaseTotal: 0,
+          lines: { start: message.lineNumbers[i], end: message.lineNumbers[i] },
+          originalMessage: message.lines[i]
+        }))
+        .filter(extracted => extracted.text)
+    },
+    {
+      stage: 'pairing',
+      name: 'patterns',
+      pair: (extracted, context) => {
+        const matches = matchTransactionPatterns(extracted.text, context.config.transactionPatterns);
+        // Only text made up of pattern matches is read this way; anything else is left to the next plugin
+        let rest = extracted.text;
+        for (const match of [...matches].reverse()) {
+          rest = rest.slice(0, match.start) + rest.slice(match.end);
+        }
+        if (matches.length === 0 || /[a-zA-Z\u0980-\u09FF\d]/.test(rest)) return null;
+
+        return {
+          items: matches.map(match => ({ item: context.itemName(match.item), amount: match.amount })),
+          rule: 'pattern',
+          tokens: extracted.text.split(/\s+/).filter(Boolean),
+          decisions: matches.map(match => `${match.item} ${match.amount} matched /${match.pattern.source}/`)
+        };
+      }
+    },
+    {
+      stage: 'pairing',
+      name: 'tokens',
+      pair: (extracted, context) => pairTokens(extracted.text, extracted.purchaseTotal, context, quantityParser)
+    },
+    {
+      stage: 'validation',
+      name: 'amount',
+      validate: transaction => {
+        if (!transaction.item) return 'Item has no name';
+        if (!Number.isFinite(transaction.amount) || transaction.amount <= 0) {
+          return `${transaction.amount} is not a price for ${transaction.item}`;
+        }
+        return null;
+      }
+    }
+  ];
+}
+
+// Read items and amounts word by word, using the কেনা total where prices are missing
+function pairTokens(content: string, kenaAmount: number, context: ParseContext, quantityParser: QuantityParser): ItemPairing {
+  const items: ItemPairing['items'] = [];
+  const decisions: string[] = [];
+  // Quantities with a unit ("5kg", "2 হালি") are taken out first so they aren't read as prices
+  const { text, quantities } = quantityParser.extractQuantities(content);
+  for (const quantity of quantities) {
+    decisions.push(`"${quantity.quantity} ${quantity.unit}" read as the quantity of ${quantity.item}`);
+  }
+  const words = text.split(/\s+/).filter(Boolean);
+  const foundItems: string[] = [];
+  const foundAmounts: number[] = [];
+  const foundQuantities: (ItemQuantity | undefined)[] = [];
+  let numbersAfterItem = 0;
+
+  // Extract all items and amounts separately
+  for (const word of words) {
+    const clean = word.replace(/[^a-zA-Z\u0980-\u09FF\d]/g, '');
+
+    if (/^\d+$/.test(clean)) {
+      const num = parseFloat(clean);
+      if (num > 0) {
+        // "dim 12 150": a second number after an item that already has its price makes the first a count
+        const last = foundItems.length - 1;
+        if (numbersAfterItem === 1 && foundAmounts.length >= foundItems.length && !foundQuantities[last]) {
+          foundQuantities[last] = { item: foundItems[last], quantity: foundAmounts.pop()!, unit: 'pcs' };
+          decisions.push(`"${foundQuantities[last]!.quantity}" read as a count of ${foundItems[last]}: another number follows it`);
+        }
+        foundAmounts.push(num);
+        numbersAfterItem++;
+      } else {
+        decisions.push(`"${clean}" ignored: an amount must be above 0`);
+      }
+    } else if (clean.length > 1 && isValidItem(clean)) {
+      foundItems.push(context.itemName(clean));
+      foundQuantities.push(quantityParser.takeQuantity(quantities, clean));
+      numbersAfterItem = 0;
+    }
+
+    // Check for attached numbers
+    const match = clean.match(/([a-zA-Z\u0980-\u09FF]+)(\d+)/);
+    if (match) {
+      const itemPart = match[1];
+      const numPart = parseFloat(match[2]);
+      if (isValidItem(itemPart) && numPart > 0) {
+        foundItems.push(context.itemName(itemPart));
+        foundQuantities.push(quantityParser.takeQuantity(quantities, itemPart));
+        foundAmounts.push(numPart);
+        numbersAfterItem = 1;
+        decisions.push(`"${clean}" split into item ${itemPart} and amount ${numPart}`);
+      }
+    }
+  }
+
+  // A single item's price is the receipt's কেনা, so a different lone number is how many were bought
+  if (foundItems.length === 1 && foundAmounts.length === 1 && kenaAmount > 0 &&
+      foundAmounts[0] < kenaAmount && !foundQuantities[0]) {
+    foundQuantities[0] = { item: foundItems[0], quantity: foundAmounts.pop()!, unit: 'pcs' };
+    decisions.push(`"${foundQuantities[0].quantity}" read as a count of ${foundItems[0]}: it is below কেনা ${kenaAmount}`);
+  }
+
+  const withQuantity = (index: number, amount: number): ItemPairing['items'][number] => {
+    const quantity = foundQuantities[index];
+    return quantity
+      ? { item: foundItems[index], amount, quantity: quantity.quantity, unit: quantity.unit }
+      : { item: foundItems[index], amount };
+  };
+
+  decisions.push(`Found ${foundItems.length} items (${foundItems.join(', ') || 'none'}) and ${foundAmounts.length} amounts (${foundAmounts.join(', ') || 'none'})`);
+
+  // Match items with amounts
+  let rule: ParseRule;
+  if (foundItems.length === 1 && foundAmounts.length === 0 && kenaAmount > 0) {
+    // Single item, use কেনা amount
+    rule = 'purchase_total';
+    items.push(withQuantity(0, kenaAmount));
+    decisions.push(`${foundItems[0]} has no price, so it takes কেনা ${kenaAmount}`);
+  } else if (foundItems.length === foundAmounts.length) {
+    // Equal items and amounts, pair them
+    rule = 'paired';
+    for (let i = 0; i < foundItems.length; i++) {
+      items.push(withQuantity(i, foundAmounts[i]));
+      decisions.push(`${foundItems[i]} paired with ${foundAmounts[i]}`);
+    }
+  } else {
+    // Try to match by position
+    rule = 'positional';
+    const maxLen = Math.min(foundItems.length, foundAmounts.length);
+    for (let i = 0; i < maxLen; i++) {
+      items.push(withQuantity(i, foundAmounts[i]));
+      decisions.push(`${foundItems[i]} paired with ${foundAmounts[i]} by position`);
+    }
+    if (foundItems.length > maxLen) {
+      decisions.push(`Left without a price: ${foundItems.slice(maxLen).join(', ')}`);
+    } else if (foundAmounts.length > maxLen) {
+      decisions.push(`Left without an item: ${foundAmounts.slice(maxLen).join(', ')}`);
+    }
+    return {
+      items,
+      rule,
+      tokens: words,
+      decisions,
+      unpriced: foundItems.slice(maxLen),
+      unmatched: foundAmounts.slice(maxLen)
+    };
+  }
+
+  return { items, rule, tokens: words, decisions };
+}
+
+function isValidItem(word: string): boolean {
+  const cleanWord = word.replace(/[^a-zA-Z\u0980-\u09FF]/g, '');
+  return cleanWord.length > 0 && !/^\d+$/.test(cleanWord);
+}
@@ -0,0 +1,142 @@
+import type { ChatParseOptions, ItemAlias, ParseResult, ParserWorkerRequest, ParserWorkerResponse } from '../types';
+import { readFileAsText } from '../utils/helpers';
+import { ParserPipeline } from './parserPipeline';
+import { ItemAliasService } from './itemAliasService';
+
+// The job waiting on the worker; resolved with null when it is thrown away
+interface PendingJob {
+  resolve: (value: string | ParseResult | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+export class ParserWorkerClient {
+  private worker: Worker | null = null;
+  private job: PendingJob | null = null;
+  // Without worker support parses run on this thread, giving way between chunks
+  private localParse: { controller: AbortController; discard: boolean } | null = null;
+
+  /**
+   * Read a file as text in the worker. Resolves with null when cancelled.
+   */
+  read(file: File, onProgress?: (progress: number) => void): Promise<string | null> {
+    if (!this.supportsWorkers()) {
+      return readFileAsText(file);
+    }
+    return this.run({ type: 'read', file }, onProgress);
+  }
+
+  /**
+   * Parse a chat export in the worker, with progress from 0 to 100. Resolves
+   * with null when the parse is discarded, and with the messages read so far,
+   * marked partial, when it is stopped with keepPartial.
+   */
+  parse(
+    content: string,
+    options: ChatParseOptions = {},
+    aliases: ItemAlias[] = new ItemAliasService().getAliases(),
+    onProgress?: (progress: number) => void
+  ): Promise<ParseResult | null> {
+    if (!this.supportsWorkers()) {
+      return this.parseHere(content, options, aliases, onProgress);
+    }
+    return this.run({ type: 'parse', content, options, aliases }, onProgress);
+  }
+
+  /**
+   * Stop the current job. A parse stopped with keepPartial ends at the next
+   * message and resolves with what was read; a read resolves with null;
+   * otherwise the job is thrown away. False when there was nothing to stop.
+   */
+  cancel(keepPartial: boolean = false): boolean {
+    if (this.localParse) {
+      this.localParse.discard = !keepPartial;
+      this.localParse.controller.abort();
+      return true;
+    }
+    if (!this.job) return false;
+
+    if (keepPartial) {
+      const request: ParserWorkerRequest = { type: 'cancel' };
+      this.worker?.postMessage(request);
+    } else {
+      // Terminating is the only way to stop a worker mid-chunk; a new one is started for the next job
+      this.job.resolve(null);
+      this.job = null;
+      this.dispose();
+    }
+    return true;
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private async parseHere(
+    content: string,
+    options: ChatParseOptions,
+    aliases: ItemAlias[],
+    onProgress?: (progress: number) => void
+  ): Promise<ParseResult | null> {
+    const localParse = { controller: new AbortController(), discard: false };
+    this.localParse = localParse;
+    try {
+      const result = await new ParserPipeline(new ItemAliasService(aliases)).parseFile(content, options, {
+        signal: localParse.controller.signal,
+        onProgress: fraction => onProgress?.(Math.round(fraction * 100))
+      });
+      return localParse.discard ? null : result;
+    } finally {
+      this.localParse = null;
+    }
+  }
+
+  private run<T>(request: ParserWorkerRequest, onProgress?: (progress: number) => void): Promise<T | null> {
+    if (this.job) {
+      return Promise.reject(new Error('A file is already being parsed'));
+    }
+
+    const worker = this.getWorker();
+    return new Promise<T | null>((resolve, reject) => {
+      this.job = { resolve: value => resolve(value as T | null), reject, onProgress };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/parserWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<ParserWorkerResponse>) => this.handleResponse(event.data));
+      this.worker.addEventListener('error', event => {
+        this.job?.reject(new Error(event.message || 'Parser worker failed'));
+        this.job = null;
+        this.dispose();
+      });
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: ParserWorkerResponse): void {
+    const job = this.job;
+    if (!job) return;
+
+    if (response.type === 'progress') {
+      job.onProgress?.(response.progress);
+      return;
+    }
+
+    this.job = null;
+    if (response.type === 'read') {
+      job.resolve(response.content);
+    } else if (response.type === 'parsed') {
+      job.resolve(response.result);
+    } else {
+      job.reject(new Error(response.error));
+    }
+  }
+
+  private supportsWorkers(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+}
@@ -0,0 +1,53 @@
+import type { ChatParticipant } from '../types';
+import { HeaderDetector } from './headerDetector';
+
+export class ParticipantService {
+  private headerDetector = new HeaderDetector();
+
+  /**
+   * List the senders of a WhatsApp chat export, most active first
+   */
+  listParticipants(content: string): ChatParticipant[] {
+    const participants = new Map<string, ChatParticipant>();
+    const format = this.headerDetector.detectFormat(content);
+
+    for (const rawLine of content.split('\n')) {
+      const header = this.headerDetector.parseHeader(rawLine, format);
+      if (!header) continue;
+
+      const { sender: name, message } = header;
+      const key = name.toLowerCase();
+      if (!participants.has(key)) {
+        participants.set(key, { name, messageCount: 0, receiptCount: 0 });
+      }
+
+      const participant = participants.get(key)!;
+      participant.messageCount++;
+      if (/লেনদেন\s+রেকর্ড/.test(message)) {
+        participant.receiptCount++;
+      }
+    }
+
+    return [...participants.values()].sort((a, b) => b.messageCount - a.messageCount);
+  }
+
+  /**
+   * Participants that post shop receipts are most likely the vendors
+   */
+  suggestVendors(participants: ChatParticipant[]): string[] {
+    return participants.filter(p => p.receiptCount > 0).map(p => p.name);
+  }
+
+  /**
+   * Identify a chat by its export file name, so re-exports of the same chat
+   * ("WhatsApp Chat with Monir.txt", "WhatsApp Chat with Monir (1).txt") share settings
+   */
+  getChatKey(fileName: string): string {
+    return fileName
+      .replace(/\.[^.]+$/, '')
+      .replace(/^whatsapp chat (with|-)\s*/i, '')
+      .replace(/\s*\(\d+\)$/, '')
+      .trim()
+      .toLowerCase();
+  }
+}
@@ -0,0 +1,87 @@
+import type { QuantityUnit } from '../types';
+
+// Unit spellings seen in messages, in English and Bengali
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  pcs: 'pcs', pc: 'pcs', pis: 'pcs', piece: 'pcs', pieces: 'pcs', ta: 'pcs', ti: 'pcs', 'টা': 'pcs', 'টি': 'pcs', 'পিস': 'pcs',
+  kg: 'kg', kgs: 'kg', kilo: 'kg', 'কেজি': 'kg',
+  g: 'g', gm: 'g', gram: 'g', grams: 'g', 'গ্রাম': 'g',
+  l: 'litre', ltr: 'litre', litre: 'litre', liter: 'litre', 'লিটার': 'litre',
+  dozen: 'dozen', dz: 'dozen', 'ডজন': 'dozen',
+  hali: 'hali', 'হালি': 'hali'
+};
+
+export interface ItemQuantity {
+  item: string; // The item word the quantity was written next to
+  quantity: number;
+  unit: QuantityUnit;
+}
+
+export class QuantityParser {
+
+  /**
+   * Find the unit a word stands for, e.g. "কেজি" → kg
+   */
+  parseUnit(word: string): QuantityUnit | null {
+    return UNIT_ALIASES[word.toLowerCase()] || null;
+  }
+
+  /**
+   * Pull quantities such as "5kg", "2 হালি" or "12ta" out of a description.
+   * Each is tied to the item written right before it ("chal 5kg"), or failing
+   * that the one after it ("2 হালি ডিম"). Digits must already be Western.
+   */
+  extractQuantities(text: string): { text: string; quantities: ItemQuantity[] } {
+    const words = text.split(/\s+/).filter(Boolean);
+    const kept: string[] = [];
+    const found: { quantity: number; unit: QuantityUnit; previousWord: string | null; position: number }[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const attached = words[i].match(/^(\d+(?:\.\d+)?)([a-zA-Z\u0980-\u09FF]+)$/);
+      const attachedUnit = attached ? this.parseUnit(attached[2]) : null;
+      const followingUnit = /^\d+(\.\d+)?$/.test(words[i]) && i + 1 < words.length ? this.parseUnit(words[i + 1]) : null;
+
+      if (attached && attachedUnit) {
+        found.push({ quantity: parseFloat(attached[1]), unit: attachedUnit, previousWord: this.lastWord(kept), position: kept.length });
+      } else if (followingUnit) {
+        found.push({ quantity: parseFloat(words[i]), unit: followingUnit, previousWord: this.lastWord(kept), position: kept.length });
+        i++;
+      } else {
+        kept.push(words[i]);
+      }
+    }
+
+    const quantities: ItemQuantity[] = [];
+    for (const entry of found) {
+      const item = entry.previousWord && !quantities.some(q => q.item === entry.previousWord)
+        ? entry.previousWord
+        : kept.slice(entry.position).find(word => this.isWord(word));
+      if (item && entry.quantity > 0) {
+        quantities.push({ item: this.clean(item), quantity: entry.quantity, unit: entry.unit });
+      }
+    }
+
+    return { text: kept.join(' '), quantities };
+  }
+
+  /**
+   * Take the quantity recorded for an item word, so a repeated item gets the next one
+   */
+  takeQuantity(quantities: ItemQuantity[], word: string): ItemQuantity | undefined {
+    const index = quantities.findIndex(q => q.item === this.clean(word));
+    return index === -1 ? undefined : quantities.splice(index, 1)[0];
+  }
+
+  // The word just before a quantity, when it is an item rather than a number
+  private lastWord(words: string[]): string | null {
+    const last = words[words.length - 1];
+    return last && this.isWord(last) ? last : null;
+  }
+
+  private isWord(word: string): boolean {
+    return /^[a-zA-Z\u0980-\u09FF]+$/.test(this.clean(word));
+  }
+
+  private clean(word: string): string {
+    return word.replace(/[^a-zA-Z\u0980-\u09FF\d]/g, '');
+  }
+}
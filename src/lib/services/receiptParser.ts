@@ -0,0 +1,193 @@
+import type { ChatParseOptions, ShopReceipt, Transaction } from '../types';
+import { convertBengaliDigits, generateId, isVendorSender, parseBengaliAmount, PARSER_VERSION } from '../utils/helpers';
+import { HeaderDetector } from './headerDetector';
+
+// Bengali month names as they appear on the receipt date line
+const BENGALI_MONTHS: Record<string, number> = Object.fromEntries(
+  [
+    'জানুয়ারি', 'ফেব্রুয়ারি', 'মার্চ', 'এপ্রিল', 'মে', 'জুন',
+    'জুলাই', 'আগস্ট', 'সেপ্টেম্বর', 'অক্টোবর', 'নভেম্বর', 'ডিসেম্বর'
+  ].map((name, index) => [name.normalize('NFC'), index])
+);
+
+// Lines printed by the shop app after the shop name that carry no receipt data
+const BOILERPLATE_PATTERNS = [
+  /^যেভাবে পেমেন্ট/,
+  /^আমার দোকানের/,
+  /^ক্যাশ নয়/,
+  /^টালিখাতা/,
+  /^সুপার QR/,
+  /^লেনদেনের বিস্তারিত/,
+  /^https?:\/\//
+];
+
+export class ReceiptParser {
+  private headerDetector = new HeaderDetector();
+
+  /**
+   * Check whether a WhatsApp message is a shop-generated receipt
+   */
+  isReceipt(message: string): boolean {
+    return /লেনদেন\s+রেকর্ড/.test(message) && /বর্তমান\s+(বাকি|জমা)/.test(message);
+  }
+
+  /**
+   * Scan a WhatsApp chat export and parse every receipt message in it,
+   * optionally limited to receipts posted by the given vendors
+   */
+  extractReceipts(content: string, options: ChatParseOptions = {}): ShopReceipt[] {
+    const messages: { date: Date; sender: string; lines: string[] }[] = [];
+    let current: { date: Date; sender: string; lines: string[] } | null = null;
+
+    const format = this.headerDetector.detectFormat(content, options.dateOrder);
+
+    for (const rawLine of content.split('\n')) {
+      const line = this.headerDetector.normalizeLine(rawLine);
+      const header = this.headerDetector.parseHeader(line, format);
+
+      if (header) {
+        current = null;
+        if (/লেনদেন\s+রেকর্ড/.test(header.message) && isVendorSender(header.sender, options.vendors)) {
+          current = { date: header.date, sender: header.sender, lines: [header.message] };
+          messages.push(current);
+        }
+      } else if (current) {
+        current.lines.push(line);
+      }
+    }
+
+    return messages
+      .map(message => this.parseReceipt(message.lines.join('\n'), message.date, message.sender))
+      .filter((receipt): receipt is ShopReceipt => receipt !== null);
+  }
+
+  /**
+   * Parse a "লেনদেন রেকর্ড" message into a structured receipt.
+   * Returns null when the message is not a receipt.
+   */
+  parseReceipt(message: string, messageDate: Date, sender: string): ShopReceipt | null {
+    if (!this.isReceipt(message)) return null;
+
+    const lines = message.split('\n').map(line => line.normalize('NFC').trim());
+
+    const receipt: ShopReceipt = {
+      messageDate: new Date(messageDate),
+      sender,
+      previousBalance: 0,
+      purchase: 0,
+      payment: 0,
+      currentBalance: 0,
+      description: '',
+      originalMessage: message
+    };
+
+    let descriptionStart = -1;
+    let lastFieldLine = -1;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      let match: RegExpMatchArray | null;
+
+      if ((match = line.match(/কাস্টমার মোবাইল নং\s*([+\d০-৯]+)/))) {
+        receipt.customerMobile = convertBengaliDigits(match[1]);
+      } else if ((match = line.match(/^পূর্বের\s+(বাকি|জমা)\s+([\d০-৯,]+)/))) {
+        receipt.previousBalance = this.signedBalance(match[1], match[2]);
+        lastFieldLine = i;
+      } else if ((match = line.match(/^কেনা\s+([\d০-৯,]+)/))) {
+        receipt.purchase = parseBengaliAmount(match[1]);
+        lastFieldLine = i;
+      } else if ((match = line.match(/^পরিশোধ\s+([\d০-৯,]+)/))) {
+        receipt.payment = parseBengaliAmount(match[1]);
+        lastFieldLine = i;
+      } else if ((match = line.match(/^বর্তমান\s+(বাকি|জমা)\s+([\d০-৯,]+)/))) {
+        receipt.currentBalance = this.signedBalance(match[1], match[2]);
+        lastFieldLine = i;
+      } else if (/^বিবরণ/.test(line)) {
+        descriptionStart = i;
+      } else if ((match = line.match(/https?:\/\/\S+/))) {
+        receipt.link = match[0];
+      } else if (!receipt.receiptDate) {
+        const receiptDate = this.parseReceiptDate(line);
+        if (receiptDate) receipt.receiptDate = receiptDate;
+      }
+    }
+
+    // The description runs from the বিবরণ line until the first blank line
+    let shopNameSearchStart = lastFieldLine + 1;
+    if (descriptionStart >= 0) {
+      const descriptionLines = [lines[descriptionStart].replace(/^বিবরণ\s*/, '')];
+      let i = descriptionStart + 1;
+      while (i < lines.length && lines[i] !== '') {
+        descriptionLines.push(lines[i]);
+        i++;
+      }
+      receipt.description = descriptionLines.filter(Boolean).join('\n');
+      shopNameSearchStart = i;
+    }
+
+    // The shop name is the first non-boilerplate line after the receipt body
+    for (let i = Math.max(shopNameSearchStart, 0); i < lines.length; i++) {
+      const line = lines[i];
+      if (!line) continue;
+      if (BOILERPLATE_PATTERNS.some(pattern => pattern.test(line))) break;
+      receipt.shopName = line;
+      break;
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Build the ledger entry for the পরিশোধ on a receipt, or null when nothing was paid
+   */
+  toPaymentTransaction(receipt: ShopReceipt): Transaction | null {
+    if (receipt.payment <= 0) return null;
+
+    return {
+      id: generateId(),
+      date: new Date(receipt.messageDate),
+      sender: receipt.sender,
+      item: 'payment',
+      amount: receipt.payment,
+      kind: 'payment',
+      originalMessage: receipt.originalMessage,
+      trace: {
+        parserVersion: PARSER_VERSION,
+        rule: 'receipt_payment',
+        tokens: [],
+        decisions: [`পরিশোধ ${receipt.payment} recorded as a payment`]
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Parse the receipt date line, e.g. "১৫ আগস্ট ২০২৫ , ০৫:৩৩ PM"
+   */
+  parseReceiptDate(line: string): Date | null {
+    const match = convertBengaliDigits(line.normalize('NFC'))
+      .match(/^(\d{1,2})\s+(\S+)\s+(\d{4})\s*,\s*(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+    if (!match) return null;
+
+    const [, dayStr, monthName, yearStr, hourStr, minuteStr, ampm] = match;
+    const month = BENGALI_MONTHS[monthName];
+    if (month === undefined) return null;
+
+    const hours = this.to24Hour(parseInt(hourStr, 10), ampm);
+    return new Date(parseInt(yearStr, 10), month, parseInt(dayStr, 10), hours, parseInt(minuteStr, 10));
+  }
+
+  private to24Hour(hours: number, ampm?: string): number {
+    if (!ampm) return hours;
+    if (ampm.toUpperCase() === 'PM' && hours !== 12) return hours + 12;
+    if (ampm.toUpperCase() === 'AM' && hours === 12) return 0;
+    return hours;
+  }
+
+  private signedBalance(kind: string, amount: string): number {
+    const value = parseBengaliAmount(amount);
+    // বাকি is owed to the shop, জমা is credit held by the shop
+    return kind === 'জমা' ? -value : value;
+  }
+}
@@ -0,0 +1,88 @@
+import type { ShopReceipt, SuspiciousTransaction } from '../types';
+import { generateId } from '../utils/helpers';
+
+// Balances are whole taka on the receipts; allow for float noise only
+const TOLERANCE = 0.01;
+
+export class ReconciliationService {
+
+  /**
+   * Check the running balance across consecutive receipts.
+   * Each receipt must satisfy পূর্বের বাকি + কেনা - পরিশোধ = বর্তমান বাকি, and its
+   * previous balance must equal the current balance of the receipt before it.
+   */
+  reconcile(receipts: ShopReceipt[]): SuspiciousTransaction[] {
+    const suspicious: SuspiciousTransaction[] = [];
+
+    for (const ledger of this.groupByLedger(receipts).values()) {
+      let previous: ShopReceipt | null = null;
+
+      for (const receipt of ledger) {
+        const expectedCurrent = receipt.previousBalance + receipt.purchase - receipt.payment;
+        if (Math.abs(expectedCurrent - receipt.currentBalance) > TOLERANCE) {
+          suspicious.push(this.createEntry(receipt, 'arithmetic_error', expectedCurrent, receipt.currentBalance));
+        }
+
+        if (previous) {
+          const gap = receipt.previousBalance - previous.currentBalance;
+          if (Math.abs(gap) > TOLERANCE) {
+            // A higher opening balance means purchases happened that we never saw a receipt for;
+            // a lower one means the balance moved without a recorded payment
+            const reason = gap > 0 ? 'missing_receipt' : 'balance_jump';
+            suspicious.push(this.createEntry(receipt, reason, previous.currentBalance, receipt.previousBalance));
+          }
+        }
+
+        previous = receipt;
+      }
+    }
+
+    return suspicious.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Group receipts per shop and customer, ordered chronologically
+   */
+  private groupByLedger(receipts: ShopReceipt[]): Map<string, ShopReceipt[]> {
+    const ledgers = new Map<string, ShopReceipt[]>();
+
+    receipts.forEach(receipt => {
+      const key = `${(receipt.shopName || '').toLowerCase()}|${receipt.customerMobile || ''}`;
+      if (!ledgers.has(key)) {
+        ledgers.set(key, []);
+      }
+      ledgers.get(key)!.push(receipt);
+    });
+
+    for (const ledger of ledgers.values()) {
+      ledger.sort((a, b) => this.receiptTime(a) - this.receiptTime(b));
+    }
+
+    return ledgers;
+  }
+
+  private receiptTime(receipt: ShopReceipt): number {
+    // The receipt's own date is when the shop recorded it; the message may arrive later
+    return (receipt.receiptDate || receipt.messageDate).getTime();
+  }
+
+  private createEntry(
+    receipt: ShopReceipt,
+    reason: SuspiciousTransaction['reason'],
+    expectedTotal: number,
+    actualTotal: number
+  ): SuspiciousTransaction {
+    return {
+      id: generateId(),
+      date: new Date(receipt.receiptDate || receipt.messageDate),
+      sender: receipt.sender,
+      originalMessage: receipt.originalMessage,
+      reason,
+      expectedTotal,
+      actualTotal,
+      extractedItems: receipt.description
+        ? [{ item: receipt.description.replace(/\n/g, ' '), amount: receipt.purchase || undefined }]
+        : []
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import type { RawMessage, ReparseDiff, Transaction } from '../types';
+import { getTransactionKind } from '../utils/helpers';
+import { MessageStore } from './messageStore';
+import { ParserPipeline } from './parserPipeline';
+
+export class ReparseService {
+  private parser = new ParserPipeline();
+  private messageStore: MessageStore;
+
+  constructor(messageStore: MessageStore) {
+    this.messageStore = messageStore;
+  }
+
+  /**
+   * Run the current parser over every stored message and compare the result
+   * with the saved transactions. vendorsFor gives the vendor participants of a source file.
+   */
+  async reparse(
+    current: Transaction[],
+    vendorsFor: (sourceFile: string) => string[] | undefined = () => undefined
+  ): Promise<ReparseDiff> {
+    const messages: RawMessage[] = [];
+    const reparsed: Transaction[] = [];
+
+    for (const sourceFile of this.messageStore.getSourceFiles()) {
+      const sourceMessages = this.messageStore.getMessages(sourceFile);
+      const result = await this.parser.parseFile(this.messageStore.toChatText(sourceMessages), {
+        vendors: vendorsFor(sourceFile),
+        dateOrder: 'dmy'
+      });
+      messages.push(...sourceMessages);
+      reparsed.push(...result.transactions);
+    }
+
+    return this.diff(current, reparsed, messages);
+  }
+
+  /**
+   * Match re-parsed transactions to saved ones from the same day and sender.
+   * Only saved transactions on days covered by the stored messages can be
+   * reported as removed, so manual entries and CSV imports are left alone.
+   */
+  diff(current: Transaction[], reparsed: Transaction[], messages: RawMessage[]): ReparseDiff {
+    const covered = new Set(messages.map(m => this.getGroupKey(m.timestamp, m.sender)));
+    const remaining = new Map<string, Transaction[]>();
+    for (const transaction of current) {
+      const key = this.getGroupKey(transaction.date, transaction.sender);
+      if (!covered.has(key)) continue;
+      remaining.set(key, [...(remaining.get(key) || []), transaction]);
+    }
+
+    const diff: ReparseDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+
+    for (const transaction of reparsed) {
+      const candidates = remaining.get(this.getGroupKey(transaction.date, transaction.sender)) || [];
+      const sameItem = candidates.filter(c =>
+        c.item.toLowerCase() === transaction.item.toLowerCase() && getTransactionKind(c) === getTransactionKind(transaction)
+      );
+      const match = sameItem.find(c => this.isSame(c, transaction)) || sameItem[0];
+
+      if (!match) {
+        diff.added.push(transaction);
+        continue;
+      }
+
+      candidates.splice(candidates.indexOf(match), 1);
+      if (this.isSame(match, transaction)) {
+        diff.unchanged++;
+      } else {
+        diff.changed.push({
+          before: match,
+          after: {
+            ...match,
+            amount: transaction.amount,
+            quantity: transaction.quantity,
+            unit: transaction.unit,
+            originalMessage: transaction.originalMessage,
+            trace: transaction.trace,
+            updatedAt: new Date()
+          }
+        });
+      }
+    }
+
+    for (const transactions of remaining.values()) {
+      diff.removed.push(...transactions);
+    }
+
+    return diff;
+  }
+
+  private isSame(a: Transaction, b: Transaction): boolean {
+    return a.amount === b.amount && a.quantity === b.quantity && a.unit === b.unit;
+  }
+
+  private getGroupKey(date: Date, sender: string): string {
+    return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}|${sender.trim().toLowerCase()}`;
+  }
+}
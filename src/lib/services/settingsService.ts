@@ -0,0 +1,251 @@
+import type { BillingCycleConfig, ChatVendorSelection, DuplicateTolerances, Profile, VendorSettings } from '../types';
+import { DEFAULT_BILLING_CYCLE, DEFAULT_DUPLICATE_TOLERANCES, generateId } from '../utils/helpers';
+
+interface StoredSettings {
+  activeProfileId: string;
+  profiles: Profile[];
+  chatVendors?: ChatVendorSelection[];
+  duplicateTolerances?: DuplicateTolerances;
+}
+
+export class SettingsService {
+  private profiles: Profile[] = [];
+  private activeProfileId = '';
+  private chatVendors: ChatVendorSelection[] = [];
+  private duplicateTolerances: DuplicateTolerances = { ...DEFAULT_DUPLICATE_TOLERANCES };
+  private storageKey = 'whatsapp-settings';
+
+  constructor() {
+    this.loadFromStorage();
+    if (this.profiles.length === 0) {
+      const profile = this.buildProfile('Default', DEFAULT_BILLING_CYCLE);
+      this.profiles.push(profile);
+      this.activeProfileId = profile.id;
+    }
+  }
+
+  // Profiles
+  getProfiles(): Profile[] {
+    return this.profiles.map(profile => ({ ...profile, vendors: [...profile.vendors] }));
+  }
+
+  getActiveProfile(): Profile {
+    return this.profiles.find(p => p.id === this.activeProfileId) || this.profiles[0];
+  }
+
+  async setActiveProfile(id: string): Promise<void> {
+    if (!this.profiles.some(p => p.id === id)) {
+      throw new Error('Profile not found');
+    }
+    this.activeProfileId = id;
+    await this.saveToStorage();
+  }
+
+  async createProfile(name: string, billingCycle: BillingCycleConfig = DEFAULT_BILLING_CYCLE): Promise<Profile> {
+    if (this.profiles.some(p => p.name.toLowerCase() === name.trim().toLowerCase())) {
+      throw new Error('Profile with this name already exists');
+    }
+    this.validateBillingCycle(billingCycle);
+
+    const profile = this.buildProfile(name.trim(), billingCycle);
+    this.profiles.push(profile);
+    await this.saveToStorage();
+    return profile;
+  }
+
+  async updateProfile(id: string, updates: Partial<Pick<Profile, 'name' | 'billingCycle'>>): Promise<Profile> {
+    const index = this.profiles.findIndex(p => p.id === id);
+    if (index === -1) {
+      throw new Error('Profile not found');
+    }
+    if (updates.billingCycle) {
+      this.validateBillingCycle(updates.billingCycle);
+    }
+
+    const updatedProfile = {
+      ...this.profiles[index],
+      ...updates,
+      updatedAt: new Date()
+    };
+
+    this.profiles[index] = updatedProfile;
+    await this.saveToStorage();
+    return updatedProfile;
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    if (this.profiles.length <= 1) {
+      throw new Error('At least one profile is required');
+    }
+    const index = this.profiles.findIndex(p => p.id === id);
+    if (index === -1) {
+      throw new Error('Profile not found');
+    }
+
+    this.profiles.splice(index, 1);
+    if (this.activeProfileId === id) {
+      this.activeProfileId = this.profiles[0].id;
+    }
+    await this.saveToStorage();
+  }
+
+  // Vendors of the active profile
+  getVendors(): VendorSettings[] {
+    return [...this.getActiveProfile().vendors];
+  }
+
+  getVendor(name: string): VendorSettings | null {
+    const key = name.trim().toLowerCase();
+    return this.getActiveProfile().vendors.find(v => v.name.toLowerCase() === key) || null;
+  }
+
+  async saveVendor(vendor: Omit<VendorSettings, 'id'> & { id?: string }): Promise<VendorSettings> {
+    const profile = this.getActiveProfile();
+    if (vendor.billingCycle) {
+      this.validateBillingCycle(vendor.billingCycle);
+    }
+
+    const duplicate = profile.vendors.find(v =>
+      v.id !== vendor.id && v.name.toLowerCase() === vendor.name.trim().toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error('Vendor with this name already exists');
+    }
+
+    const saved: VendorSettings = { ...vendor, id: vendor.id || generateId(), name: vendor.name.trim() };
+    const index = profile.vendors.findIndex(v => v.id === saved.id);
+    const vendors = [...profile.vendors];
+    if (index === -1) {
+      vendors.push(saved);
+    } else {
+      vendors[index] = saved;
+    }
+
+    await this.updateVendors(profile.id, vendors);
+    return saved;
+  }
+
+  async deleteVendor(id: string): Promise<void> {
+    const profile = this.getActiveProfile();
+    await this.updateVendors(profile.id, profile.vendors.filter(v => v.id !== id));
+  }
+
+  // Billing cycle for a vendor, falling back to the active profile's cycle
+  getBillingCycle(vendor?: string): BillingCycleConfig {
+    const vendorSettings = vendor ? this.getVendor(vendor) : null;
+    return { ...(vendorSettings?.billingCycle || this.getActiveProfile().billingCycle) };
+  }
+
+  // Vendor participants chosen per chat
+  getChatSelections(): ChatVendorSelection[] {
+    return this.chatVendors.map(selection => ({ ...selection, vendors: [...selection.vendors] }));
+  }
+
+  getChatVendors(chatKey: string): string[] | null {
+    const selection = this.chatVendors.find(s => s.chatKey === chatKey);
+    return selection ? [...selection.vendors] : null;
+  }
+
+  async saveChatVendors(chatKey: string, vendors: string[]): Promise<ChatVendorSelection> {
+    if (!chatKey.trim()) {
+      throw new Error('Chat is required');
+    }
+    if (vendors.length === 0) {
+      throw new Error('Select at least one vendor');
+    }
+
+    const saved: ChatVendorSelection = { chatKey, vendors: [...vendors], updatedAt: new Date() };
+    this.chatVendors = [...this.chatVendors.filter(s => s.chatKey !== chatKey), saved];
+    await this.saveToStorage();
+    return saved;
+  }
+
+  async deleteChatVendors(chatKey: string): Promise<void> {
+    this.chatVendors = this.chatVendors.filter(s => s.chatKey !== chatKey);
+    await this.saveToStorage();
+  }
+
+  // How close a new transaction must be to a saved one to be reviewed as a duplicate
+  getDuplicateTolerances(): DuplicateTolerances {
+    return { ...this.duplicateTolerances };
+  }
+
+  async saveDuplicateTolerances(tolerances: DuplicateTolerances): Promise<DuplicateTolerances> {
+    const { timeWindowMinutes, messageWindowHours, messageSimilarity } = tolerances;
+    if (!(timeWindowMinutes >= 0) || !(messageWindowHours >= 0)) {
+      throw new Error('Duplicate time windows cannot be negative');
+    }
+    if (!(messageSimilarity >= 0 && messageSimilarity <= 1)) {
+      throw new Error('Message similarity must be between 0 and 1');
+    }
+
+    this.duplicateTolerances = { timeWindowMinutes, messageWindowHours, messageSimilarity };
+    await this.saveToStorage();
+    return this.getDuplicateTolerances();
+  }
+
+  private async updateVendors(profileId: string, vendors: VendorSettings[]): Promise<void> {
+    const index = this.profiles.findIndex(p => p.id === profileId);
+    this.profiles[index] = { ...this.profiles[index], vendors, updatedAt: new Date() };
+    await this.saveToStorage();
+  }
+
+  private validateBillingCycle(billingCycle: BillingCycleConfig): void {
+    const { startDay } = billingCycle;
+    if (!Number.isInteger(startDay) || startDay < 1 || startDay > 31) {
+      throw new Error('Billing cycle start day must be between 1 and 31');
+    }
+  }
+
+  private buildProfile(name: string, billingCycle: BillingCycleConfig): Profile {
+    return {
+      id: generateId(),
+      name,
+      billingCycle: { ...billingCycle },
+      vendors: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  // Storage operations
+  private async saveToStorage(): Promise<void> {
+    try {
+      const data: StoredSettings = {
+        activeProfileId: this.activeProfileId,
+        profiles: this.profiles,
+        chatVendors: this.chatVendors,
+        duplicateTolerances: this.duplicateTolerances
+      };
+      localStorage.setItem(this.storageKey, JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to save settings to storage:', error);
+      throw new Error('Failed to save settings locally');
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const data = localStorage.getItem(this.storageKey);
+      if (data) {
+        const parsed = JSON.parse(data);
+        this.activeProfileId = parsed.activeProfileId;
+        this.profiles = (parsed.profiles || []).map((p: any) => ({
+          ...p,
+          vendors: p.vendors || [],
+          createdAt: new Date(p.createdAt),
+          updatedAt: new Date(p.updatedAt)
+        }));
+        this.chatVendors = (parsed.chatVendors || []).map((c: any) => ({
+          ...c,
+          updatedAt: new Date(c.updatedAt)
+        }));
+        this.duplicateTolerances = { ...DEFAULT_DUPLICATE_TOLERANCES, ...parsed.duplicateTolerances };
+      }
+    } catch (error) {
+      console.error('Failed to load settings from storage:', error);
+      this.profiles = [];
+      this.chatVendors = [];
+    }
+  }
+}
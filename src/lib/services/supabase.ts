@@ -1,6 +1,7 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import type { Transaction, SyncResult } from '../types';
+import type { Transaction, TransactionKind, TransactionFlag, QuantityUnit, ParseTrace, SyncResult } from '../types';
 import { validateTransaction } from '../validation/schemas';
+import { getPaidAmount, getSpentAmount, isPurchase } from '../utils/helpers';
 
 // Database types
 interface DatabaseTransaction {
@@ -9,7 +10,12 @@ interface DatabaseTransaction {
   sender: string;
   item: string;
   amount: number;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  kind: TransactionKind;
   original_message?: string;
+  parse_trace?: ParseTrace | null;
+  flags?: TransactionFlag[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -71,7 +77,12 @@ export class SupabaseService {
         sender: t.sender,
         item: t.item,
         amount: t.amount,
-        original_message: t.originalMessage
+        quantity: t.quantity ?? null,
+        unit: t.unit ?? null,
+        kind: t.kind || 'purchase',
+        original_message: t.originalMessage,
+        parse_trace: t.trace ?? null,
+        flags: t.flags ?? null
       }));
 
       // Use upsert to handle duplicates
@@ -171,7 +182,11 @@ export class SupabaseService {
       if (updates.sender) dbUpdates.sender = updates.sender;
       if (updates.item) dbUpdates.item = updates.item;
       if (updates.amount !== undefined) dbUpdates.amount = updates.amount;
+      if (updates.quantity !== undefined) dbUpdates.quantity = updates.quantity;
+      if (updates.unit !== undefined) dbUpdates.unit = updates.unit;
+      if (updates.kind) dbUpdates.kind = updates.kind;
       if (updates.originalMessage !== undefined) dbUpdates.original_message = updates.originalMessage;
+      if ('flags' in updates) dbUpdates.flags = updates.flags ?? null;
 
       const { error } = await this.client
         .from(this.tableName)
@@ -226,13 +241,14 @@ export class SupabaseService {
   async getTransactionStats(): Promise<{
     totalTransactions: number;
     totalAmount: number;
+    totalPaid: number;
     averageAmount: number;
     dateRange: { earliest: Date; latest: Date } | null;
   }> {
     try {
       const { data, error } = await this.client
         .from(this.tableName)
-        .select('amount, date');
+        .select('amount, kind, date');
 
       if (error) {
         throw new Error(`Failed to get transaction stats: ${error.message}`);
@@ -242,14 +258,17 @@ export class SupabaseService {
         return {
           totalTransactions: 0,
           totalAmount: 0,
+          totalPaid: 0,
           averageAmount: 0,
           dateRange: null
         };
       }
 
       const totalTransactions = data.length;
-      const totalAmount = data.reduce((sum, t) => sum + t.amount, 0);
-      const averageAmount = totalAmount / totalTransactions;
+      const totalAmount = data.reduce((sum, t) => sum + getSpentAmount(t), 0);
+      const totalPaid = data.reduce((sum, t) => sum + getPaidAmount(t), 0);
+      const purchaseCount = data.filter(isPurchase).length;
+      const averageAmount = purchaseCount > 0 ? totalAmount / purchaseCount : 0;
 
       const dates = data.map(t => new Date(t.date)).sort((a, b) => a.getTime() - b.getTime());
       const dateRange = {
@@ -260,6 +279,7 @@ export class SupabaseService {
       return {
         totalTransactions,
         totalAmount,
+        totalPaid,
         averageAmount,
         dateRange
       };
@@ -274,7 +294,8 @@ export class SupabaseService {
     try {
       const { data, error } = await this.client
         .from(this.tableName)
-        .select('item, amount');
+        .select('item, amount')
+        .eq('kind', 'purchase');
 
       if (error) {
         throw new Error(`Failed to get item distribution: ${error.message}`);
@@ -305,7 +326,7 @@ export class SupabaseService {
     try {
       const { data, error } = await this.client
         .from(this.tableName)
-        .select('date, amount');
+        .select('date, amount, kind');
 
       if (error) {
         throw new Error(`Failed to get monthly spending: ${error.message}`);
@@ -321,8 +342,8 @@ export class SupabaseService {
         
         const existing = monthMap.get(monthKey) || { total: 0, transactionCount: 0, year: date.getFullYear() };
         monthMap.set(monthKey, {
-          total: existing.total + t.amount,
-          transactionCount: existing.transactionCount + 1,
+          total: existing.total + getSpentAmount(t),
+          transactionCount: existing.transactionCount + (isPurchase(t) ? 1 : 0),
           year: date.getFullYear()
         });
       });
@@ -357,7 +378,12 @@ export class SupabaseService {
       sender: dbTransaction.sender,
       item: dbTransaction.item,
       amount: dbTransaction.amount,
+      quantity: dbTransaction.quantity ?? undefined,
+      unit: dbTransaction.unit ?? undefined,
+      kind: dbTransaction.kind || 'purchase',
       originalMessage: dbTransaction.original_message,
+      trace: dbTransaction.parse_trace ?? undefined,
+      flags: dbTransaction.flags ?? undefined,
       createdAt: new Date(dbTransaction.created_at),
       updatedAt: new Date(dbTransaction.updated_at)
     };
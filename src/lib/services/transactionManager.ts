@@ -1,38 +1,68 @@
 import type {
   Transaction,
+  DuplicateCandidate,
+  DuplicateTolerances,
   FilterConfig,
   SortConfig,
   SyncResult,
   TransactionEvent
 } from '../types';
 import { validateTransaction } from '../validation/schemas';
-import { generateId, deepClone, sortBy, filterBy } from '../utils/helpers';
+import {
+  generateId,
+  deepClone,
+  sortBy,
+  filterBy,
+  getTransactionKind,
+  getSpentAmount,
+  getPaidAmount,
+  getBalanceEffect,
+  isPurchase,
+  isUnallocated,
+  withoutFlag,
+  levenshteinDistance,
+  DEFAULT_DUPLICATE_TOLERANCES
+} from '../utils/helpers';
+import { itemMatchesSearch, phoneticKey } from '../utils/transliteration';
+import { ItemAliasService } from './itemAliasService';
 
 export class TransactionManager {
   private transactions: Transaction[] = [];
   private listeners: ((event: TransactionEvent) => void)[] = [];
   private storageKey = 'whatsapp-transactions';
+  private duplicateTolerances: DuplicateTolerances = { ...DEFAULT_DUPLICATE_TOLERANCES };
+  private itemAliases: ItemAliasService;
 
-  constructor() {
+  constructor(itemAliases: ItemAliasService = new ItemAliasService()) {
+    this.itemAliases = itemAliases;
     this.loadFromStorage();
   }
 
   // CRUD Operations
-  async addTransactions(newTransactions: Transaction[]): Promise<void> {
+  /**
+   * Add transactions. Possible repeats of saved transactions are held back and
+   * returned for review, unless skipDuplicates is false (the user chose to keep them).
+   */
+  async addTransactions(
+    newTransactions: Transaction[],
+    options: { skipDuplicates?: boolean } = {}
+  ): Promise<DuplicateCandidate[]> {
+    const { skipDuplicates = true } = options;
     const validTransactions: Transaction[] = [];
+    const duplicates = skipDuplicates ? this.findDuplicates(newTransactions) : [];
+    const heldBack = new Set(duplicates.map(candidate => candidate.transaction));
+    const usedIds = new Set(this.transactions.map(t => t.id));
 
     for (const transaction of newTransactions) {
       const validation = validateTransaction(transaction);
       if (validation.isValid) {
-        // Check for duplicates
-        const isDuplicate = this.transactions.some(existing =>
-          this.isDuplicateTransaction(existing, transaction)
-        );
-
-        if (!isDuplicate) {
+        if (!heldBack.has(transaction)) {
+          // A kept repeat of a saved transaction needs an ID of its own
+          const id = transaction.id && !usedIds.has(transaction.id) ? transaction.id : generateId();
+          usedIds.add(id);
           validTransactions.push({
             ...transaction,
-            id: transaction.id || generateId(),
+            id,
             createdAt: transaction.createdAt || new Date(),
             updatedAt: new Date()
           });
@@ -51,6 +81,8 @@ export class TransactionManager {
         timestamp: new Date()
       });
     });
+
+    return duplicates;
   }
 
   async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
@@ -119,6 +151,104 @@ export class TransactionManager {
     });
   }
 
+  /**
+   * Rename saved transactions' items, e.g. after an alias is added or changed.
+   * rename gives the new name for an item, or null to leave it. Returns the number renamed.
+   */
+  async renameItems(rename: (item: string) => string | null): Promise<number> {
+    const renamed: Transaction[] = [];
+
+    this.transactions = this.transactions.map(transaction => {
+      const item = rename(transaction.item);
+      if (!item || item === transaction.item) return transaction;
+
+      const updatedTransaction = { ...transaction, item, updatedAt: new Date() };
+      renamed.push(updatedTransaction);
+      return updatedTransaction;
+    });
+
+    if (renamed.length > 0) {
+      await this.saveToStorage();
+      renamed.forEach(transaction => {
+        this.notifyListeners({
+          type: 'update',
+          transaction,
+          timestamp: new Date()
+        });
+      });
+    }
+    return renamed.length;
+  }
+
+  /**
+   * Assign parts of an unallocated amount to items. Items already read from the
+   * same message get the amount added to their price; other names become new
+   * transactions of that message. What is left stays unallocated, and the line
+   * is removed once nothing is.
+   */
+  async allocateRemainder(id: string, allocations: { item: string; amount: number }[]): Promise<void> {
+    const unallocated = this.getTransaction(id);
+    if (!unallocated || !isUnallocated(unallocated)) {
+      throw new Error('Transaction has no unallocated amount');
+    }
+    if (allocations.some(allocation => !allocation.item.trim() || !(allocation.amount > 0))) {
+      throw new Error('Each assigned amount needs an item and a positive amount');
+    }
+    const assigned = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+    if (assigned > unallocated.amount + 0.005) {
+      throw new Error('Assigned amounts add up to more than the unallocated amount');
+    }
+
+    const siblings = this.getMessageTransactions(unallocated).filter(t => t.id !== id && isPurchase(t));
+    const added: Transaction[] = [];
+    for (const allocation of allocations) {
+      const item = allocation.item.trim();
+      const sibling = siblings.find(t => t.item.toLowerCase() === item.toLowerCase());
+      const decision = `${allocation.amount} of the unallocated amount assigned to ${item}`;
+
+      if (sibling) {
+        const current = this.getTransaction(sibling.id)!;
+        await this.updateTransaction(sibling.id, {
+          amount: Math.round((current.amount + allocation.amount) * 100) / 100,
+          trace: current.trace && { ...current.trace, decisions: [...current.trace.decisions, decision] }
+        });
+      } else {
+        added.push({
+          ...unallocated,
+          id: generateId(),
+          item,
+          amount: allocation.amount,
+          flags: undefined,
+          trace: unallocated.trace && { ...unallocated.trace, decisions: [...unallocated.trace.decisions, decision] },
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+      }
+    }
+    if (added.length > 0) {
+      await this.addTransactions(added, { skipDuplicates: false });
+    }
+
+    const left = Math.round((unallocated.amount - assigned) * 100) / 100;
+    if (left > 0) {
+      await this.updateTransaction(id, { amount: left });
+    } else {
+      await this.deleteTransaction(id);
+    }
+  }
+
+  /**
+   * Keep a flagged amount as it is. Without its flag it counts as a usual
+   * amount of the item when later imports are checked.
+   */
+  async confirmAmount(id: string): Promise<void> {
+    const transaction = this.getTransaction(id);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+    await this.updateTransaction(id, { flags: withoutFlag(transaction.flags, 'amount_outlier') });
+  }
+
   // Query Operations
   getTransactions(filters?: FilterConfig, sort?: SortConfig): Transaction[] {
     let result = deepClone(this.transactions);
@@ -140,6 +270,19 @@ export class TransactionManager {
     return this.transactions.find(t => t.id === id) || null;
   }
 
+  /**
+   * Transactions read from the same message as the given one: the same time,
+   * sender and source lines
+   */
+  getMessageTransactions(transaction: Transaction): Transaction[] {
+    const source = (t: Transaction) => t.trace?.lines?.start ?? t.originalMessage;
+    return this.transactions.filter(t =>
+      t.date.getTime() === transaction.date.getTime() &&
+      t.sender === transaction.sender &&
+      source(t) === source(transaction)
+    );
+  }
+
   getTransactionCount(filters?: FilterConfig): number {
     if (!filters) return this.transactions.length;
     return this.applyFilters(this.transactions, filters).length;
@@ -165,9 +308,7 @@ export class TransactionManager {
 
     // Item search filter
     if (filters.itemSearch) {
-      result = result.filter(t =>
-        t.item.toLowerCase().includes(filters.itemSearch!.toLowerCase())
-      );
+      result = result.filter(t => this.itemMatches(t.item, filters.itemSearch!));
     }
 
     // Amount range filter
@@ -177,6 +318,11 @@ export class TransactionManager {
       );
     }
 
+    // Kind filter
+    if (filters.kind) {
+      result = result.filter(t => getTransactionKind(t) === filters.kind);
+    }
+
     return result;
   }
 
@@ -185,7 +331,7 @@ export class TransactionManager {
 
     const searchTerm = query.toLowerCase();
     return this.transactions.filter(transaction =>
-      transaction.item.toLowerCase().includes(searchTerm) ||
+      this.itemMatches(transaction.item, query) ||
       transaction.sender.toLowerCase().includes(searchTerm) ||
       transaction.amount.toString().includes(searchTerm) ||
       (transaction.originalMessage && transaction.originalMessage.toLowerCase().includes(searchTerm))
@@ -194,7 +340,7 @@ export class TransactionManager {
 
   // Analytics helpers
   getUniqueItems(): string[] {
-    const items = new Set(this.transactions.map(t => t.item));
+    const items = new Set(this.transactions.filter(isPurchase).map(t => t.item));
     return Array.from(items).sort();
   }
 
@@ -203,15 +349,28 @@ export class TransactionManager {
     return Array.from(senders).sort();
   }
 
+  // Net amount spent: purchases minus refunds and returns
   getTotalAmount(filters?: FilterConfig): number {
     const transactions = filters ? this.applyFilters(this.transactions, filters) : this.transactions;
-    return transactions.reduce((sum, t) => sum + t.amount, 0);
+    return transactions.reduce((sum, t) => sum + getSpentAmount(t), 0);
+  }
+
+  getTotalPaid(filters?: FilterConfig): number {
+    const transactions = filters ? this.applyFilters(this.transactions, filters) : this.transactions;
+    return transactions.reduce((sum, t) => sum + getPaidAmount(t), 0);
+  }
+
+  // What is still owed to the shop: purchases minus payments, refunds and returns
+  getOutstandingBalance(filters?: FilterConfig): number {
+    const transactions = filters ? this.applyFilters(this.transactions, filters) : this.transactions;
+    return transactions.reduce((sum, t) => sum + getBalanceEffect(t), 0);
   }
 
   getAverageAmount(filters?: FilterConfig): number {
     const transactions = filters ? this.applyFilters(this.transactions, filters) : this.transactions;
-    if (transactions.length === 0) return 0;
-    return this.getTotalAmount(filters) / transactions.length;
+    const purchaseCount = transactions.filter(isPurchase).length;
+    if (purchaseCount === 0) return 0;
+    return this.getTotalAmount(filters) / purchaseCount;
   }
 
   // Storage Operations
@@ -265,12 +424,15 @@ export class TransactionManager {
   exportToCSV(): string {
     if (this.transactions.length === 0) return '';
 
-    const headers = ['Date', 'Sender', 'Item', 'Amount', 'Original Message'];
+    const headers = ['Date', 'Sender', 'Item', 'Amount', 'Quantity', 'Unit', 'Kind', 'Original Message'];
     const rows = this.transactions.map(t => [
       t.date.toISOString().split('T')[0],
       t.sender,
       t.item,
       t.amount.toString(),
+      t.quantity?.toString() || '',
+      t.unit || '',
+      getTransactionKind(t),
       t.originalMessage || ''
     ]);
 
@@ -298,7 +460,12 @@ export class TransactionManager {
             sender: item.sender,
             item: item.item,
             amount: parseFloat(item.amount),
+            quantity: item.quantity !== undefined ? parseFloat(item.quantity) : undefined,
+            unit: item.unit,
+            kind: item.kind,
             originalMessage: item.originalMessage,
+            attachments: Array.isArray(item.attachments) ? item.attachments : undefined,
+            trace: item.trace,
             createdAt: new Date(item.createdAt || Date.now()),
             updatedAt: new Date(item.updatedAt || Date.now())
           };
@@ -343,85 +510,109 @@ export class TransactionManager {
     });
   }
 
-  // Utility Methods
-  private isDuplicateTransaction(existing: Transaction, newTransaction: Transaction): boolean {
-    // Consider transactions duplicates if they have the same sender, item, amount,
-    // and are within 5 minutes of each other
-    const timeDiff = Math.abs(existing.date.getTime() - newTransaction.date.getTime());
-    const fiveMinutes = 5 * 60 * 1000;
-
-    // Enhanced duplicate detection for incremental uploads:
-    // Also consider as duplicate if same sender, item, amount, and very close date (within 1 day)
-    // This helps when re-uploading files with slightly different timestamps
-    const oneDay = 24 * 60 * 60 * 1000;
-    
-    const sameBasicInfo = existing.sender === newTransaction.sender &&
-      existing.item === newTransaction.item &&
-      existing.amount === newTransaction.amount;
-
-    // Strict duplicate check (5 minutes)
-    if (sameBasicInfo && timeDiff < fiveMinutes) {
-      return true;
+  // Duplicate detection
+  getDuplicateTolerances(): DuplicateTolerances {
+    return { ...this.duplicateTolerances };
+  }
+
+  setDuplicateTolerances(tolerances: DuplicateTolerances): void {
+    this.duplicateTolerances = { ...tolerances };
+  }
+
+  /**
+   * Find saved transactions that incoming ones may repeat. A saved transaction
+   * with the same ID was read from the same message line. Otherwise each saved
+   * transaction is matched at most once, so a purchase really made twice is only
+   * flagged as often as it was already saved.
+   */
+  findDuplicates(newTransactions: Transaction[]): DuplicateCandidate[] {
+    const saved = new Map<string, Transaction[]>();
+    const savedById = new Map<string, Transaction>();
+    for (const existing of this.transactions) {
+      const key = this.getDuplicateKey(existing);
+      saved.set(key, [...(saved.get(key) || []), existing]);
+      savedById.set(existing.id, existing);
     }
 
-    // Relaxed duplicate check for incremental uploads (1 day) - only if original message is very similar
-    if (sameBasicInfo && timeDiff < oneDay) {
-      // If original messages exist, check if they're very similar
-      if (existing.originalMessage && newTransaction.originalMessage) {
-        // Normalize messages for comparison (remove extra spaces, convert to lowercase)
-        const normalizeMsg = (msg: string) => msg.toLowerCase().replace(/\s+/g, ' ').trim();
-        const normalizedExisting = normalizeMsg(existing.originalMessage);
-        const normalizedNew = normalizeMsg(newTransaction.originalMessage);
-        
-        // If messages are very similar (Levenshtein distance < 10% of message length)
-        const distance = this.levenshteinDistance(normalizedExisting, normalizedNew);
-        const maxLength = Math.max(normalizedExisting.length, normalizedNew.length);
-        
-        if (distance / maxLength < 0.1) {
-          return true;
-        }
+    const pairs: (DuplicateCandidate & { timeDiff: number })[] = [];
+    for (const transaction of newTransactions) {
+      const sameId = savedById.get(transaction.id);
+      if (sameId) {
+        pairs.push({ transaction, existing: sameId, similarity: 1, reason: 'same_fingerprint', timeDiff: -1 });
+        continue;
       }
-      
-      // If no original messages or messages are not similar, still consider as duplicate
-      // if the date difference is very small and all other fields match
-      if (timeDiff < 30 * 60 * 1000) { // 30 minutes
-        return true;
+
+      for (const existing of saved.get(this.getDuplicateKey(transaction)) || []) {
+        const match = this.compareDuplicate(existing, transaction);
+        if (match) pairs.push({ transaction, existing, ...match });
       }
     }
 
-    return false;
+    // Closest matches claim their saved transaction first
+    pairs.sort((a, b) => b.similarity - a.similarity || a.timeDiff - b.timeDiff);
+    const claimed = new Set<Transaction>();
+    const candidates: DuplicateCandidate[] = [];
+    for (const { timeDiff, ...pair } of pairs) {
+      if (claimed.has(pair.existing) || claimed.has(pair.transaction)) continue;
+      claimed.add(pair.existing);
+      claimed.add(pair.transaction);
+      candidates.push(pair);
+    }
+
+    return candidates;
   }
 
-  // Levenshtein distance algorithm for string similarity
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+  // Utility Methods
+  private getDuplicateKey(transaction: Transaction): string {
+    return [
+      transaction.sender,
+      this.normalizeForGrouping(this.itemAliases.resolve(transaction.item) ?? transaction.item),
+      transaction.amount,
+      getTransactionKind(transaction)
+    ].join('|');
+  }
 
-    for (let i = 0; i <= str1.length; i++) {
-      matrix[0][i] = i;
-    }
+  /**
+   * Decide whether two transactions with the same sender, item, amount and kind
+   * may be the same one. Close together in time is enough; further apart, within
+   * the message window, the original messages must be alike.
+   */
+  private compareDuplicate(
+    existing: Transaction,
+    newTransaction: Transaction
+  ): Pick<DuplicateCandidate, 'similarity' | 'reason'> & { timeDiff: number } | null {
+    const { timeWindowMinutes, messageWindowHours, messageSimilarity } = this.duplicateTolerances;
+    const timeDiff = Math.abs(existing.date.getTime() - newTransaction.date.getTime());
+    const messageWindow = messageWindowHours * 60 * 60 * 1000;
+    const similarity = this.getMessageSimilarity(existing.originalMessage, newTransaction.originalMessage)
+      ?? Math.max(0, 1 - timeDiff / Math.max(messageWindow, 1));
 
-    for (let j = 0; j <= str2.length; j++) {
-      matrix[j][0] = j;
+    if (timeDiff <= timeWindowMinutes * 60 * 1000) {
+      return { similarity, reason: 'same_time', timeDiff };
     }
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // deletion
-          matrix[j - 1][i] + 1, // insertion
-          matrix[j - 1][i - 1] + indicator // substitution
-        );
-      }
+    if (timeDiff <= messageWindow && existing.originalMessage && newTransaction.originalMessage && similarity >= messageSimilarity) {
+      return { similarity, reason: 'similar_message', timeDiff };
     }
+    return null;
+  }
+
+  // 0-1 by edit distance of the normalised messages; null when either is missing
+  private getMessageSimilarity(a?: string, b?: string): number | null {
+    if (!a || !b) return null;
 
-    return matrix[str2.length][str1.length];
+    const normalizeMsg = (msg: string) => msg.toLowerCase().replace(/\s+/g, ' ').trim();
+    const normalizedA = normalizeMsg(a);
+    const normalizedB = normalizeMsg(b);
+    const maxLength = Math.max(normalizedA.length, normalizedB.length);
+    return maxLength === 0 ? 1 : 1 - levenshteinDistance(normalizedA, normalizedB) / maxLength;
   }
 
   // Statistics
   getStatistics() {
     const total = this.transactions.length;
     const totalAmount = this.getTotalAmount();
+    const totalPaid = this.getTotalPaid();
+    const outstandingBalance = this.getOutstandingBalance();
     const averageAmount = this.getAverageAmount();
     const uniqueItems = this.getUniqueItems().length;
     const uniqueSenders = this.getUniqueSenders().length;
@@ -434,7 +625,7 @@ export class TransactionManager {
     } : null;
 
     // Top items by count
-    const itemCounts = this.transactions.reduce((acc, t) => {
+    const itemCounts = this.transactions.filter(isPurchase).reduce((acc, t) => {
       acc[t.item] = (acc[t.item] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
@@ -447,6 +638,8 @@ export class TransactionManager {
     return {
       total,
       totalAmount,
+      totalPaid,
+      outstandingBalance,
       averageAmount,
       uniqueItems,
       uniqueSenders,
@@ -464,17 +657,22 @@ export class TransactionManager {
     const normalizedItems = new Map<string, string[]>();
 
     this.transactions.forEach(transaction => {
-      const normalizedItem = this.normalizeForGrouping(transaction.item);
+      // Spellings in the alias dictionary group under its name
+      const aliasName = this.itemAliases.resolve(transaction.item);
+      const normalizedItem = this.normalizeForGrouping(aliasName ?? transaction.item);
       if (!normalizedItems.has(normalizedItem)) {
         normalizedItems.set(normalizedItem, []);
       }
       normalizedItems.get(normalizedItem)!.push(transaction.item);
+      if (aliasName) {
+        itemGroups.set(transaction.item, aliasName);
+      }
     });
 
     // Create mapping from original item to normalized item
     normalizedItems.forEach((originalItems, normalizedItem) => {
-      // Use the shortest, cleanest version as the canonical name
-      const canonicalItem = originalItems
+      // Use the alias name, or else the shortest, cleanest version as the canonical name
+      const canonicalItem = originalItems.map(item => itemGroups.get(item)).find(Boolean) || originalItems
         .sort((a, b) => a.length - b.length)
         .find(item => !(/^\d/.test(item))) || originalItems[0];
 
@@ -490,13 +688,15 @@ export class TransactionManager {
     }));
   }
 
+  // Bengali and romanised spellings of an item share a phonetic key, e.g. "রসুন" and "rosun"
   private normalizeForGrouping(item: string): string {
-    return item
-      .toLowerCase()
-      .replace(/^\d+\s*/, '') // Remove leading numbers
-      .replace(/[^\w\s\u0980-\u09FF]/g, '') // Remove special characters
-      .replace(/\s+/g, ' ')
-      .trim();
+    return phoneticKey(item.replace(/^\d+\s*/, '')) || item.toLowerCase().trim();
+  }
+
+  // Search by the item as written, in another script, or by its alias name
+  private itemMatches(item: string, query: string): boolean {
+    const aliasName = this.itemAliases.resolve(item);
+    return itemMatchesSearch(item, query) || (aliasName !== null && itemMatchesSearch(aliasName, query));
   }
 
   // Get item frequency analysis
@@ -508,7 +708,7 @@ export class TransactionManager {
     const groupedTransactions = this.getGroupedTransactions();
     const itemStats = new Map<string, { count: number; totalAmount: number }>();
 
-    groupedTransactions.forEach(transaction => {
+    groupedTransactions.filter(isPurchase).forEach(transaction => {
       const existing = itemStats.get(transaction.item) || { count: 0, totalAmount: 0 };
       itemStats.set(transaction.item, {
         count: existing.count + 1,
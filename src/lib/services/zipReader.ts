@@ -0,0 +1,130 @@
+// Minimal reader for the .zip archives produced by WhatsApp's "Export chat".
+// Supports stored and deflated entries, which is all WhatsApp writes; ZIP64 is not supported.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export class ZipReader {
+  private view: DataView;
+  private bytes: Uint8Array<ArrayBuffer>;
+
+  constructor(data: ArrayBuffer) {
+    this.bytes = new Uint8Array(data);
+    this.view = new DataView(data);
+  }
+
+  /**
+   * List the files in the archive from its central directory, skipping folders
+   */
+  listEntries(): ZipEntry[] {
+    const end = this.findEndOfCentralDirectory();
+    const count = this.view.getUint16(end + 10, true);
+    let offset = this.view.getUint32(end + 16, true);
+    const entries: ZipEntry[] = [];
+    const decoder = new TextDecoder('utf-8');
+
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt zip archive');
+      }
+
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const entry: ZipEntry = {
+        name: decoder.decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength)),
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        size: this.view.getUint32(offset + 24, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true)
+      };
+
+      if (entry.compressedSize === 0xffffffff || entry.localHeaderOffset === 0xffffffff) {
+        throw new Error('Zip archives over 4GB are not supported');
+      }
+      if (!entry.name.endsWith('/')) {
+        entries.push(entry);
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Read and decompress a file from the archive
+   */
+  async read(entry: ZipEntry): Promise<ArrayBuffer> {
+    const offset = entry.localHeaderOffset;
+    if (this.view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry: ${entry.name}`);
+    }
+
+    const dataStart = offset + 30 + this.view.getUint16(offset + 26, true) + this.view.getUint16(offset + 28, true);
+    const data = this.bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+    switch (entry.method) {
+      case METHOD_STORED:
+        return data.slice().buffer;
+      case METHOD_DEFLATE:
+        return this.inflate(data);
+      default:
+        throw new Error(`Unsupported compression in zip entry: ${entry.name}`);
+    }
+  }
+
+  async readText(entry: ZipEntry): Promise<string> {
+    return new TextDecoder('utf-8').decode(await this.read(entry));
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // The record is 22 bytes, followed by a comment of up to 64KB
+    const lowest = Math.max(0, this.bytes.length - 22 - 0xffff);
+    for (let offset = this.bytes.length - 22; offset >= lowest; offset--) {
+      if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error('Not a zip archive');
+  }
+
+  private async inflate(data: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+    const input = new ReadableStream<BufferSource>({
+      start(controller) {
+        controller.enqueue(data);
+        controller.close();
+      }
+    });
+    const reader = input.pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      length += value.length;
+    }
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output.buffer;
+  }
+}
@@ -6,15 +6,51 @@ export interface Transaction {
   sender: string;
   item: string;
   amount: number;
+  kind?: TransactionKind; // defaults to 'purchase' when missing
+  quantity?: number; // e.g. 5 for "chal 5kg 350"
+  unit?: QuantityUnit;
   originalMessage?: string;
-  flags?: string[];
+  flags?: TransactionFlag[]; // Problems found while parsing, left for the user to resolve
   categoryId?: string;
   category?: Category;
   confidence?: number;
+  attachments?: string[]; // File names from the chat export archive, e.g. a receipt photo
+  trace?: ParseTrace; // How the parser read this transaction from the chat
   createdAt: Date;
   updatedAt: Date;
 }
 
+// total_mismatch: the item prices of a message don't add up to its কেনা
+// amount_outlier: far from what the item usually costs, kept until the user confirms it
+export type TransactionFlag = 'total_mismatch' | 'amount_outlier';
+
+// A purchase raises the balance owed to the shop; payments, refunds and returns lower it.
+// Amounts are always stored as positive numbers, the kind gives the direction.
+export type TransactionKind = 'purchase' | 'payment' | 'refund' | 'return';
+
+// হালি is a count of four
+export type QuantityUnit = 'pcs' | 'kg' | 'g' | 'litre' | 'dozen' | 'hali';
+
+// Rule that produced a transaction from a message
+export type ParseRule =
+  | 'paired'          // as many amounts as items, matched in order
+  | 'positional'      // item and amount counts differ, matched by position
+  | 'purchase_total'  // a single unpriced item takes the receipt's কেনা
+  | 'split_total'     // the rest of কেনা is split between unpriced items (parsers before 1.4.0)
+  | 'unallocated'     // the part of কেনা, or the amounts, no item price explains
+  | 'pattern'         // matched by one of the configured transaction patterns
+  | 'receipt_payment' // পরিশোধ on a shop receipt
+  | 'csv_row';        // read from an uploaded CSV file
+
+export interface ParseTrace {
+  parserVersion: string;
+  rule: ParseRule;
+  lines?: { start: number; end: number }; // 1-based lines of the source file
+  tokens: string[]; // Words of the description after number conversion
+  decisions: string[]; // Item/amount pairing steps, in order
+  unpriced?: string[]; // Items found without a price, which the unallocated amount may belong to
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -29,6 +65,7 @@ export interface AnalyticsData {
   monthlySpending: MonthlyTotal[];
   totalTransactions: number;
   totalAmount: number;
+  totalPaid: number;
   averageTransaction: number;
 }
 
@@ -42,6 +79,7 @@ export interface MonthlyTotal {
   month: string;
   year: number;
   total: number;
+  totalPaid?: number;
   transactionCount: number;
 }
 
@@ -50,6 +88,23 @@ export interface ParseResult {
   errors: ParseError[];
   summary: ParseSummary;
   suspiciousTransactions: SuspiciousTransaction[];
+  receipts?: ShopReceipt[];
+}
+
+// Structured shop receipt ("লেনদেন রেকর্ড") as generated by the Tally app
+export interface ShopReceipt {
+  messageDate: Date;        // WhatsApp message timestamp
+  sender: string;
+  receiptDate?: Date;       // Bengali date line inside the receipt
+  customerMobile?: string;
+  previousBalance: number;  // পূর্বের বাকি (negative when পূর্বের জমা)
+  purchase: number;         // কেনা
+  payment: number;          // পরিশোধ
+  currentBalance: number;   // বর্তমান বাকি (negative when বর্তমান জমা)
+  description: string;      // বিবরণ
+  shopName?: string;
+  link?: string;
+  originalMessage: string;
 }
 
 export interface SuspiciousTransaction {
@@ -57,12 +112,21 @@ export interface SuspiciousTransaction {
   date: Date;
   sender: string;
   originalMessage: string;
-  reason: 'missing_items' | 'total_mismatch' | 'no_amount';
+  reason: SuspiciousReason;
   expectedTotal?: number;
   actualTotal?: number;
   extractedItems: { item: string; amount?: number }[];
 }
 
+// missing_receipt, arithmetic_error and balance_jump come from running-balance reconciliation
+export type SuspiciousReason =
+  | 'missing_items'
+  | 'total_mismatch'
+  | 'no_amount'
+  | 'missing_receipt'
+  | 'arithmetic_error'
+  | 'balance_jump';
+
 export interface ParseError {
   line: number;
   message: string;
@@ -73,8 +137,71 @@ export interface ParseSummary {
   totalLines: number;
   successfulTransactions: number;
   failedLines: number;
-  duplicatesSkipped: number;
+  duplicatesSkipped: number; // Messages skipped because an earlier upload of the chat imported them
   processingTime: number;
+  detectedFormat?: ChatFormat | null; // Header format of the chat export, null when none was recognised
+  dateOrder?: DateOrderDecision;
+  newMessages?: number; // Messages after the chat's import watermark
+  importedSince?: Date; // Last message imported by an earlier upload
+  messageLabels?: MessageLabelCounts; // Messages of the chat by label
+  partial?: boolean; // Parsing was cancelled; totalLines counts the lines read before it stopped
+}
+
+// What a chat message is: only normal and edited messages are read for items,
+// edited ones without WhatsApp's "<This message was edited>" marker
+export type MessageLabel = 'system' | 'deleted' | 'media' | 'edited' | 'normal';
+
+export type MessageLabelCounts = Record<MessageLabel, number>;
+
+// WhatsApp export header formats
+export type ChatPlatform = 'android' | 'ios';
+
+export interface ChatFormat {
+  platform: ChatPlatform; // android: "dd/mm/yyyy, h:mm pm - Name: text", ios: "[dd/mm/yy, hh:mm:ss] Name: text"
+  dateSeparator: '/' | '.' | '-';
+  clock: '12h' | '24h';
+  dateOrder: DateOrderDecision;
+}
+
+// Day/month order of numeric dates in an export
+export type DateOrder = 'dmy' | 'mdy';
+
+export interface DateOrderDecision {
+  order: DateOrder;
+  // impossible_values: a day above 12 gave it away; chronology: the order that keeps
+  // timestamps moving forward; default: nothing to go on, day first assumed
+  reason: 'impossible_values' | 'chronology' | 'default' | 'override';
+}
+
+// Options shared by the chat parsers
+export interface ChatParseOptions {
+  vendors?: string[]; // Participants whose messages are parsed; every participant when omitted
+  dateOrder?: DateOrder; // Overrides the detected day/month order
+}
+
+// Hooks for a long parse: progress is reported and cancellation checked between chunks of lines
+export interface ParseControl {
+  chunkSize?: number;
+  onProgress?: (fraction: number) => void; // 0-1 of the lines parsed
+  signal?: AbortSignal; // Stops after the current message; the result is marked partial
+}
+
+// Messages between the page and the parser worker
+export type ParserWorkerRequest =
+  | { type: 'read'; file: File }
+  | { type: 'parse'; content: string; options: ChatParseOptions; aliases: ItemAlias[] }
+  | { type: 'cancel' }; // Finish the parse early with what has been read, or give up a read
+
+export type ParserWorkerResponse =
+  | { type: 'progress'; progress: number } // 0-100 of the current job
+  | { type: 'read'; content: string | null } // null when the read was cancelled
+  | { type: 'parsed'; result: ParseResult }
+  | { type: 'error'; error: string };
+
+export interface ChatHeader {
+  date: Date;
+  sender: string;
+  message: string;
 }
 
 export interface FilterConfig {
@@ -82,6 +209,7 @@ export interface FilterConfig {
   sender?: string;
   itemSearch?: string;
   amountRange?: AmountRange;
+  kind?: TransactionKind;
 }
 
 export interface FilterState {
@@ -125,16 +253,70 @@ export interface CellReference {
   field: keyof Transaction;
 }
 
+// The stages of the parser pipeline, in the order they run
+export type ParserStage = 'segmentation' | 'classification' | 'normalisation' | 'extraction' | 'pairing' | 'validation';
+
 export interface ParseConfig {
-  messagePattern: RegExp;
-  transactionPatterns: RegExp[];
-  dateFormat: string;
-  currencySymbol?: string;
-  itemMap?: Record<string, string>;
-  senderFilter?: string;
-  performanceTarget?: number;
+  stages: Record<ParserStage, string[]>; // Registered plugin names run by each stage, in order
+  transactionPatterns: RegExp[]; // Free-text purchases, with named item and amount groups
+  dateFormat: string; // 'DD/MM/YYYY' or 'MM/DD/YYYY'; 'auto' detects the order from the chat
+  currencySymbol?: string; // Removed from messages along with টাকা and taka
+  itemMap?: Record<string, string>; // Spellings mapped to item names, checked before the alias dictionary
+  senderFilter?: string[]; // Participants whose messages are parsed when no vendors are given
+}
+
+// A message of a chat export; lines start with the text after the header
+export interface ChatMessage {
+  date: Date;
+  sender: string; // Empty for system notices
+  lines: string[];
+  lineNumbers: number[]; // 1-based line of the export for each line
+  label?: MessageLabel; // Set by segmentation for notices, otherwise by classification
 }
 
+// A message after normalisation; text[i] is lines[i] cleaned up for reading
+export interface NormalisedMessage extends ChatMessage {
+  text: string[];
+}
+
+// Text to read items from, as found by an extraction plugin
+export interface ExtractedText {
+  text: string;
+  purchaseTotal: number; // The message's কেনা, 0 when it has none
+  lines: { start: number; end: number };
+  originalMessage: string;
+  receipt?: ShopReceipt;
+}
+
+// Items read from extracted text, with the rule used and the steps taken to pair them
+export interface ItemPairing {
+  items: Pick<Transaction, 'item' | 'amount' | 'quantity' | 'unit'>[];
+  rule: ParseRule;
+  tokens: string[];
+  decisions: string[];
+  unpriced?: string[]; // Items left without a price
+  unmatched?: number[]; // Amounts left without an item
+}
+
+// State shared by the plugins of one parse
+export interface ParseContext {
+  config: ParseConfig;
+  vendors?: string[];
+  dateOrder?: DateOrder;
+  format: ChatFormat | null; // Set by segmentation
+  errors: ParseError[];
+  itemName: (word: string) => string; // Item name for a spelling, from the item map and alias dictionary
+}
+
+// Plugins return null to leave the message to the next plugin of their stage
+export type ParserPlugin =
+  | { stage: 'segmentation'; name: string; segment: (lines: string[], context: ParseContext) => ChatMessage[] | null }
+  | { stage: 'classification'; name: string; classify: (message: ChatMessage, context: ParseContext) => MessageLabel | null }
+  | { stage: 'normalisation'; name: string; normalise: (line: string, context: ParseContext) => string }
+  | { stage: 'extraction'; name: string; extract: (message: NormalisedMessage, context: ParseContext) => ExtractedText[] | null }
+  | { stage: 'pairing'; name: string; pair: (extracted: ExtractedText, context: ParseContext) => ItemPairing | null }
+  | { stage: 'validation'; name: string; validate: (transaction: Transaction, context: ParseContext) => string | null }; // An error drops the transaction
+
 export interface ChartData {
   labels: string[];
   datasets: ChartDataset[];
@@ -266,7 +448,7 @@ export interface TransactionEvent {
 }
 
 export interface FileUploadEvent {
-  type: 'start' | 'progress' | 'complete' | 'error';
+  type: 'start' | 'progress' | 'complete' | 'error' | 'cancelled';
   progress?: number;
   error?: string;
   result?: {
@@ -275,6 +457,7 @@ export interface FileUploadEvent {
     size: number;
     lastModified?: Date;
     type?: string;
+    archive?: ChatArchive;
   };
 }
 
@@ -289,6 +472,7 @@ export interface SyncEvent {
 export interface BillItem {
   item: string;
   quantity: number;
+  unit?: QuantityUnit; // Quantities are combined in kg, litre or pcs; missing when the messages gave none
   unitPrice: number;
   totalPrice: number;
 }
@@ -302,10 +486,12 @@ export interface DayBill {
 export interface MonthBill {
   month: string;
   year: number;
-  startDate: Date; // 15th of previous month
-  endDate: Date;   // 14th of current month
+  startDate: Date; // Cycle start day in the previous month
+  endDate: Date;   // Day before the cycle start day in this month
   days: DayBill[];
   totalAmount: number;
+  totalPaid: number;    // Payments made during the month
+  totalCredits: number; // Refunds and returns during the month
   itemSummary: BillItem[]; // Combined items for the month
 }
 
@@ -315,11 +501,44 @@ export interface BillingPeriod {
   type: 'month' | 'custom';
 }
 
+// A billing cycle runs from startDay to the day before startDay in the next month.
+// When startDay is past the end of a shorter month the cycle starts on that month's last day.
+export interface BillingCycleConfig {
+  startDay: number; // 1-31
+}
+
+// One billing cycle; it is named after the month it ends in
+export interface BillingCyclePeriod {
+  year: number;
+  month: number; // 1-based
+  startDate: Date;
+  endDate: Date; // Last day of the cycle
+}
+
+export type BillingCycleResolver = (vendor: string) => BillingCycleConfig;
+
 export interface BillingSummary {
   period: BillingPeriod;
   monthlyBills: MonthBill[];
   dailyBills: DayBill[];
+  statements: BillingStatement[];
   grandTotal: number;
+  totalPaid: number;
+  totalCredits: number;
+  outstandingBalance: number; // Closing balance of the last cycle
+}
+
+// Account statement for one billing cycle
+export interface BillingStatement {
+  month: string;
+  year: number;
+  startDate: Date;
+  endDate: Date;
+  openingBalance: number; // Previous cycle's closing balance
+  purchases: number;
+  payments: number;
+  adjustments: number;    // Refunds and returns
+  closingBalance: number; // opening + purchases - payments - adjustments
 }
 
 // Category-related types
@@ -361,4 +580,172 @@ export interface AnalyticsInsight {
   description: string;
   severity: 'low' | 'medium' | 'high';
   data?: any;
-}
\ No newline at end of file
+}
+// Settings
+export interface VendorSettings {
+  id: string;
+  name: string; // Matched against Transaction.sender
+  billingCycle?: BillingCycleConfig; // Overrides the profile's billing cycle
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  billingCycle: BillingCycleConfig;
+  vendors: VendorSettings[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Chat participants
+export interface ChatParticipant {
+  name: string;
+  messageCount: number;
+  receiptCount: number; // "লেনদেন রেকর্ড" messages posted by this participant
+}
+
+// Participants of a chat whose messages are parsed as vendor transactions
+export interface ChatVendorSelection {
+  chatKey: string;
+  vendors: string[];
+  updatedAt: Date;
+}
+
+// WhatsApp "Export chat" .zip archive
+export interface ArchiveAttachment {
+  name: string;
+  size: number;
+  mimeType: string;
+  date?: Date; // Taken from the file name, e.g. IMG-20250815-WA0003.jpg
+}
+
+export interface ChatArchive {
+  chatFileName: string;
+  content: string;
+  attachments: ArchiveAttachment[];
+  readAttachment: (name: string) => Promise<Blob>;
+}
+
+// Chat messages kept as imported, so they can be parsed again when the parser improves
+export interface RawMessage {
+  id: string;
+  timestamp: Date;
+  sender: string;
+  text: string; // Full message text, continuation lines included
+  sourceFile: string; // Name of the chat export the message was imported from
+  importedAt: Date;
+}
+
+// Result of re-parsing stored messages, compared with the saved transactions
+export interface ReparseDiff {
+  added: Transaction[];
+  changed: { before: Transaction; after: Transaction }[];
+  removed: Transaction[];
+  unchanged: number;
+}
+
+// Duplicate detection: possible repeats of saved transactions are reviewed, not dropped
+export type DuplicateReason = 'same_fingerprint' | 'same_time' | 'similar_message';
+
+export interface DuplicateTolerances {
+  timeWindowMinutes: number; // Same sender, item and amount this close together is a likely repeat
+  messageWindowHours: number; // Further apart than the time window, the original messages must match too
+  messageSimilarity: number; // 0-1, how alike the original messages must be
+}
+
+export interface DuplicateCandidate {
+  transaction: Transaction; // Incoming transaction
+  existing: Transaction; // Saved transaction it may repeat
+  similarity: number; // 0-1
+  reason: DuplicateReason;
+}
+
+// Import staging: parsed rows are reviewed before anything is saved
+export type DuplicateAction = 'import' | 'skip' | 'merge';
+
+export interface StagedRow {
+  key: string;
+  messageKey: string; // Rows read from the same chat message share it
+  transaction: Transaction;
+  accepted: boolean;
+  duplicate?: DuplicateCandidate; // Saved transaction this row may repeat
+  duplicateAction?: DuplicateAction; // Only set for duplicates; merge updates the saved transaction
+  correction?: ItemCorrection; // Set while a misspelt-looking item waits for review
+}
+
+export interface ImportBatch {
+  sourceFile: string;
+  rows: StagedRow[];
+  errors: ParseError[];
+  suspiciousTransactions: SuspiciousTransaction[];
+}
+
+// How an item name compares with the items already known
+// known: in the alias dictionary or saved before; corrected: close enough to be renamed;
+// review: possibly misspelt, left as written for the user to decide; new: nothing close
+export type ItemCorrectionStatus = 'known' | 'corrected' | 'review' | 'new';
+
+export interface ItemCorrection {
+  original: string;
+  item: string; // Name to use: the corrected one, otherwise the original
+  suggestion?: string; // Closest known item, for corrected and review
+  confidence: number; // 0-1 similarity to the closest known item
+  status: ItemCorrectionStatus;
+}
+
+export interface ItemCorrectionThresholds {
+  autoCorrect: number; // Similarity at which an item is renamed without asking
+  review: number; // Similarity at which a correction is suggested
+}
+
+// Usual amounts of an item, learned from the saved purchases of the item or its category.
+// With a unit they are prices per kg, litre or piece, otherwise whole amounts
+export interface AmountBounds {
+  median: number;
+  low: number;
+  high: number;
+  samples: number;
+  basis: 'item' | 'category';
+  unit?: QuantityUnit;
+}
+
+export interface AmountPlausibilitySettings {
+  minSamples: number; // Saved purchases needed before an item's amounts are judged
+  tolerance: number; // How many spreads from the median an amount may be
+  minSpread: number; // Smallest spread, as a log ratio, so steady prices still allow some change
+}
+
+// What saving a reviewed batch does to the saved transactions
+export interface ImportPlan {
+  add: Transaction[];
+  addDuplicates: Transaction[]; // Kept although they repeat saved transactions
+  merge: { id: string; updates: Partial<Transaction> }[];
+}
+
+// Last message imported from a chat, so re-uploads of the whole history only parse what's new
+export interface ImportWatermark {
+  chatKey: string;
+  vendors: string[]; // Vendor participants the chat was imported for
+  timestamp: Date;
+  fingerprint: string; // Of the last imported message: timestamp, sender and text
+  updatedAt: Date;
+}
+
+// A chat export with the messages imported before removed
+export interface IncrementalChat {
+  content: string;
+  format: ChatFormat | null; // Detected on the whole export
+  skippedMessages: number;
+  newMessages: number;
+  since: Date | null; // Watermark the messages were skipped up to, null for a first import
+}
+
+// Item alias dictionary: local spellings of an item, in Bengali and Latin script, read as one name
+export interface ItemAlias {
+  id: string;
+  name: string; // Name transactions are stored under
+  bengali: string[];
+  latin: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
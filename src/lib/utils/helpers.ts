@@ -1,7 +1,67 @@
 // Utility helper functions
+import type { AmountPlausibilitySettings, BillingCycleConfig, BillingCyclePeriod, ChatFormat, DateOrderDecision, DuplicateTolerances, ItemCorrectionThresholds, ParseConfig, QuantityUnit, Transaction, TransactionFlag, TransactionKind } from '../types';
 
+// Random UUID, so IDs fit the uuid columns in Supabase
 export function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return formatUuid(Array.from({ length: 4 }, () => Math.floor(Math.random() * 0x100000000)), 4);
+}
+
+// Deterministic UUID: the same fingerprint always gives the same ID
+export function fingerprintId(fingerprint: string): string {
+  return formatUuid(hash128(fingerprint), 8);
+}
+
+/**
+ * Identify a chat message by its time, sender and text, wherever it appears in
+ * an export. Blank lines and surrounding spaces don't change the fingerprint.
+ */
+export function messageFingerprint(timestamp: Date, sender: string, lines: string[]): string {
+  const text = lines.map(line => line.trim()).filter(Boolean).join('\n');
+  return fingerprintId(`${timestamp.getTime()}|${sender.trim().toLowerCase()}|${text}`);
+}
+
+/**
+ * Give the transactions read from one message IDs derived from the message's
+ * fingerprint and the row within it, so importing the message again, alone or
+ * in an overlapping export, gives the same IDs. occurrence tells apart
+ * identical messages sent in the same minute.
+ */
+export function assignFingerprintIds(transactions: Transaction[], fingerprint: string, occurrence = 0): Transaction[] {
+  return transactions.map((transaction, row) => ({
+    ...transaction,
+    id: fingerprintId(`${fingerprint}|${occurrence}|${row}`)
+  }));
+}
+
+// 128-bit string hash (cyrb128) as four unsigned 32-bit words
+function hash128(text: string): number[] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < text.length; i++) {
+    const k = text.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2578233019);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2578233019);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+// RFC 4122 layout with the given version and the standard variant bits
+function formatUuid(words: number[], version: number): string {
+  const hex = words.map(word => (word >>> 0).toString(16).padStart(8, '0')).join('');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${version}${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
 }
 
 export function formatDate(date: Date, format: string = 'DD/MM/YYYY'): string {
@@ -25,6 +85,25 @@ export function formatDate(date: Date, format: string = 'DD/MM/YYYY'): string {
   }
 }
 
+// Human-readable name of a chat export format, e.g. "iOS, mm.dd.yy, 24-hour"
+export function describeChatFormat(format: ChatFormat): string {
+  const platform = format.platform === 'ios' ? 'iOS' : 'Android';
+  const fields = format.dateOrder.order === 'mdy' ? ['mm', 'dd', 'yy'] : ['dd', 'mm', 'yy'];
+  return `${platform}, ${fields.join(format.dateSeparator)}, ${format.clock === '12h' ? '12-hour' : '24-hour'}`;
+}
+
+// e.g. "month first (timestamps only move forward that way)"
+export function describeDateOrder(decision: DateOrderDecision): string {
+  const order = decision.order === 'mdy' ? 'month first' : 'day first';
+  const reasons: Record<DateOrderDecision['reason'], string> = {
+    impossible_values: 'some dates have a day above 12',
+    chronology: 'timestamps only move forward that way',
+    default: 'the dates fit either order',
+    override: 'as chosen'
+  };
+  return `${order} (${reasons[decision.reason]})`;
+}
+
 export function formatCurrency(amount: number, symbol: string = '৳'): string {
   return `${symbol}${amount.toFixed(2)}`;
 }
@@ -165,42 +244,179 @@ export function getMonthName(monthIndex: number): string {
   return months[monthIndex] || '';
 }
 
-// Helper function to determine which 15th-to-15th period a transaction belongs to
-export function getMonthPeriodFor15thCycle(transactionDate: Date): {
-  year: number;
-  month: number;
-  startDate: Date;
-  endDate: Date;
-} {
-  const day = transactionDate.getDate();
-  const month = transactionDate.getMonth();
-  const year = transactionDate.getFullYear();
-
-  if (day >= 15) {
-    // Transaction is in the period starting from 15th of this month
-    // Period ends on 14th of next month, so we label it as next month
-    const nextMonth = month + 1;
-    const nextYear = nextMonth > 11 ? year + 1 : year;
-    const adjustedMonth = nextMonth > 11 ? 0 : nextMonth;
-    
-    return {
-      year: nextYear,
-      month: adjustedMonth + 1, // 1-based month
-      startDate: new Date(year, month, 15),
-      endDate: new Date(nextYear, adjustedMonth, 14)
-    };
-  } else {
-    // Transaction is in the period that started from 15th of previous month
-    // Period ends on 14th of current month, so we label it as current month
-    return {
-      year: year,
-      month: month + 1, // 1-based month
-      startDate: new Date(month === 0 ? year - 1 : year, month === 0 ? 11 : month - 1, 15),
-      endDate: new Date(year, month, 14)
-    };
+// Ledger helpers: transactions without a kind are purchases
+export function getTransactionKind(transaction: Pick<Transaction, 'kind'>): TransactionKind {
+  return transaction.kind || 'purchase';
+}
+
+export function isPurchase(transaction: Pick<Transaction, 'kind'>): boolean {
+  return getTransactionKind(transaction) === 'purchase';
+}
+
+// Net spending: purchases count, refunds and returns give money back, payments don't change it
+export function getSpentAmount(transaction: Pick<Transaction, 'kind' | 'amount'>): number {
+  switch (getTransactionKind(transaction)) {
+    case 'purchase': return transaction.amount;
+    case 'refund':
+    case 'return': return -transaction.amount;
+    default: return 0;
+  }
+}
+
+export function getPaidAmount(transaction: Pick<Transaction, 'kind' | 'amount'>): number {
+  return getTransactionKind(transaction) === 'payment' ? transaction.amount : 0;
+}
+
+// Effect on the balance owed to the shop
+export function getBalanceEffect(transaction: Pick<Transaction, 'kind' | 'amount'>): number {
+  return isPurchase(transaction) ? transaction.amount : -transaction.amount;
+}
+
+// Stamped on every parse trace; bump when parsing rules change
+export const PARSER_VERSION = '1.6.0';
+
+// Item name of the line holding the part of a message's total no item price explains
+export const UNALLOCATED_ITEM = 'unallocated';
+
+export function isUnallocated(transaction: Pick<Transaction, 'item' | 'flags'>): boolean {
+  return transaction.item === UNALLOCATED_ITEM && !!transaction.flags?.includes('total_mismatch');
+}
+
+// Flags without the given one; undefined rather than an empty list
+export function withoutFlag(flags: TransactionFlag[] | undefined, flag: TransactionFlag): TransactionFlag[] | undefined {
+  const rest = flags?.filter(f => f !== flag);
+  return rest && rest.length > 0 ? rest : undefined;
+}
+
+// Express a quantity in kg, litre or pcs so amounts bought in different units add up
+export function toBaseQuantity(quantity: number, unit: QuantityUnit): { quantity: number; unit: QuantityUnit } {
+  switch (unit) {
+    case 'g': return { quantity: quantity / 1000, unit: 'kg' };
+    case 'dozen': return { quantity: quantity * 12, unit: 'pcs' };
+    case 'hali': return { quantity: quantity * 4, unit: 'pcs' };
+    default: return { quantity, unit };
   }
 }
 
+// "5 kg", "12 pcs"; bare count when there is no unit
+export function formatQuantity(quantity: number, unit?: QuantityUnit): string {
+  return unit ? `${quantity} ${unit}` : `${quantity}`;
+}
+
+// Sender filter for chat parsing: without a vendor list every participant is accepted
+export function isVendorSender(sender: string, vendors?: string[]): boolean {
+  if (!vendors || vendors.length === 0) return true;
+  const name = sender.trim().toLowerCase();
+  return vendors.some(vendor => vendor.trim().toLowerCase() === name);
+}
+
+// Convert Bengali numerals (০-৯) to Western digits
+export function convertBengaliDigits(text: string): string {
+  return text.replace(/[০-৯]/g, (digit) => String(digit.charCodeAt(0) - 0x09E6));
+}
+
+// Number of single-character insertions, deletions and substitutions between two strings
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i++) {
+    matrix[0][i] = i;
+  }
+
+  for (let j = 0; j <= str2.length; j++) {
+    matrix[j][0] = j;
+  }
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1, // deletion
+        matrix[j - 1][i] + 1, // insertion
+        matrix[j - 1][i - 1] + indicator // substitution
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
+
+// Parse an amount such as "১৩,০৬৫" or "8,064" into a number
+export function parseBengaliAmount(text: string): number {
+  const cleaned = convertBengaliDigits(text).replace(/[,\s]/g, '');
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+export const DEFAULT_BILLING_CYCLE: BillingCycleConfig = { startDay: 15 };
+
+export const DEFAULT_DUPLICATE_TOLERANCES: DuplicateTolerances = {
+  timeWindowMinutes: 30,
+  messageWindowHours: 24,
+  messageSimilarity: 0.9
+};
+
+export const DEFAULT_ITEM_CORRECTION_THRESHOLDS: ItemCorrectionThresholds = {
+  autoCorrect: 0.75,
+  review: 0.5
+};
+
+// An amount is an outlier when it is more than three spreads from the item's median.
+// The spread is at least log(1.3), so an item always bought at one price may still
+// cost about twice or half as much before it is flagged.
+export const DEFAULT_AMOUNT_PLAUSIBILITY: AmountPlausibilitySettings = {
+  minSamples: 4,
+  tolerance: 3,
+  minSpread: Math.log(1.3)
+};
+
+// Shop receipts and "কেনা … বিবরণ …" messages; the 'lines' extraction and 'patterns'
+// pairing plugins also read free-text purchases such as "milk 100"
+export const DEFAULT_PARSE_CONFIG: ParseConfig = {
+  stages: {
+    segmentation: ['whatsapp'],
+    classification: ['whatsapp'],
+    normalisation: ['markers', 'numbers', 'currency'],
+    extraction: ['receipt', 'description'],
+    pairing: ['tokens'],
+    validation: ['amount']
+  },
+  transactionPatterns: [
+    /(?<item>[a-zA-Z\u0980-\u09FF]+)\s*[:\-–]?\s*(?<amount>\d+(?:\.\d+)?)/,
+    /(?<amount>\d+(?:\.\d+)?)\s+for\s+(?<item>[a-zA-Z\u0980-\u09FF]+)/i
+  ],
+  dateFormat: 'auto',
+  currencySymbol: '৳'
+};
+
+// Start date of the billing cycle in the given month, clamped to the month's last day
+export function getCycleStartDate(year: number, monthIndex: number, startDay: number): Date {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+  return new Date(year, monthIndex, Math.min(startDay, lastDay));
+}
+
+// Determine which billing cycle a date belongs to
+export function getBillingCyclePeriod(
+  date: Date,
+  cycle: BillingCycleConfig = DEFAULT_BILLING_CYCLE
+): BillingCyclePeriod {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const day = new Date(year, month, date.getDate());
+
+  const thisMonthStart = getCycleStartDate(year, month, cycle.startDay);
+  const startDate = day >= thisMonthStart ? thisMonthStart : getCycleStartDate(year, month - 1, cycle.startDay);
+  const nextStart = getCycleStartDate(startDate.getFullYear(), startDate.getMonth() + 1, cycle.startDay);
+  const endDate = new Date(nextStart.getFullYear(), nextStart.getMonth(), nextStart.getDate() - 1);
+
+  return {
+    year: endDate.getFullYear(),
+    month: endDate.getMonth() + 1, // 1-based month
+    startDate,
+    endDate
+  };
+}
+
 export function downloadFile(content: string, filename: string, mimeType: string = 'text/plain'): void {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
@@ -222,6 +438,15 @@ export function readFileAsText(file: File): Promise<string> {
   });
 }
 
+export function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = (e) => reject(new Error('Failed to read file'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
 export function getFileSize(bytes: number): string {
   const sizes = ['Bytes', 'KB', 'MB', 'GB'];
   if (bytes === 0) return '0 Bytes';
@@ -0,0 +1,75 @@
+// Bengali script and romanised Bangla, brought to a common spelling
+import { convertBengaliDigits } from './helpers';
+
+const BENGALI_LETTERS: Record<string, string> = {
+  'অ': 'o', 'আ': 'a', 'ই': 'i', 'ঈ': 'i', 'উ': 'u', 'ঊ': 'u', 'ঋ': 'ri', 'এ': 'e', 'ঐ': 'oi', 'ও': 'o', 'ঔ': 'ou',
+  'া': 'a', 'ি': 'i', 'ী': 'i', 'ু': 'u', 'ূ': 'u', 'ৃ': 'ri', 'ে': 'e', 'ৈ': 'oi', 'ো': 'o', 'ৌ': 'ou',
+  'ক': 'k', 'খ': 'kh', 'গ': 'g', 'ঘ': 'gh', 'ঙ': 'ng', 'চ': 'ch', 'ছ': 'chh', 'জ': 'j', 'ঝ': 'jh', 'ঞ': 'n',
+  'ট': 't', 'ঠ': 'th', 'ড': 'd', 'ঢ': 'dh', 'ণ': 'n', 'ত': 't', 'থ': 'th', 'দ': 'd', 'ধ': 'dh', 'ন': 'n',
+  'প': 'p', 'ফ': 'f', 'ব': 'b', 'ভ': 'bh', 'ম': 'm', 'য': 'j', 'র': 'r', 'ল': 'l', 'শ': 'sh', 'ষ': 'sh',
+  'স': 's', 'হ': 'h', 'ৎ': 't', 'ং': 'ng', 'ঃ': 'h'
+};
+
+/**
+ * Write Bengali script in Latin letters the way items are typed in the chats,
+ * e.g. "কোক" → "kok", "চাল" → "chal". Inherent vowels are left out; other text
+ * is lowercased and kept.
+ */
+export function romanizeBengali(text: string): string {
+  return convertBengaliDigits(text.normalize('NFC'))
+    .replace(/\u09A1\u09BC/g, 'r') // ড়
+    .replace(/\u09A2\u09BC/g, 'rh') // ঢ়
+    .replace(/\u09AF\u09BC/g, 'y') // য়
+    .replace(/\u09CD\u09AF/g, '') // য-ফলা, as in টিস্যু
+    .replace(/[\u0980-\u09FF]/g, char => BENGALI_LETTERS[char] ?? '')
+    .toLowerCase();
+}
+
+/**
+ * Key that the Bengali and romanised spellings of an item share, e.g. "রসুন",
+ * "rosun" and "roshun" → "rsun", "পিঁয়াজ" and "piaz" → "pij". Spellings differ
+ * mostly in how vowels and aspirated letters are written, so those are evened out;
+ * words are kept apart by single spaces and anything but letters is dropped.
+ */
+export function phoneticKey(text: string): string {
+  return romanizeBengali(text)
+    .replace(/[^a-z]+/g, ' ')
+    .split(' ')
+    .map(toPhoneticWord)
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Whether an item matches a search, as typed or by its phonetic key, so
+ * "dim" finds "ডিম"
+ */
+export function itemMatchesSearch(item: string, query: string): boolean {
+  const search = query.trim().toLowerCase();
+  if (item.toLowerCase().includes(search)) return true;
+
+  const key = phoneticKey(search);
+  return key.length > 0 && phoneticKey(item).includes(key);
+}
+
+function toPhoneticWord(word: string): string {
+  if (!word) return '';
+
+  // A silent final e, as in "coke" and "paste"
+  const spoken = word.length > 3 ? word.replace(/e$/, '') : word;
+  const key = spoken
+    .replace(/ph/g, 'f')
+    .replace(/c(?!h)|q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 'j')
+    .replace(/v/g, 'bh')
+    .replace(/sh/g, 's')
+    .replace(/([kgcjtdpbr])h/g, '$1') // aspirates are often typed without the h
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/([aeiou])y/g, '$1') // পিয়াজ → piyaj, typed piaj
+    .replace(/(.)\1+/g, '$1');
+
+  // The inherent vowel is written as o, a or not at all
+  return key[0] + key.slice(1).replace(/[ao]/g, '');
+}
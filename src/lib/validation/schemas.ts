@@ -22,7 +22,8 @@ export const transactionSchema: ValidationSchema = {
     required: true,
     min: 1,
     max: 100,
-    pattern: /^[a-zA-Z\s\u0980-\u09FF]+$/,
+    // Unsaved contacts are exported as phone numbers, e.g. "+880 1712-345678"
+    pattern: /^[a-zA-Z\d\s\u0980-\u09FF+.-]+$/,
     custom: (value: string) => {
       if (typeof value !== 'string' || value.trim().length === 0) {
         return 'Sender name is required';
@@ -55,6 +56,33 @@ export const transactionSchema: ValidationSchema = {
       }
       return true;
     }
+  },
+  kind: {
+    custom: (value: any) => {
+      const allowedKinds = ['purchase', 'payment', 'refund', 'return'];
+      if (!allowedKinds.includes(value)) {
+        return 'Kind must be purchase, payment, refund or return';
+      }
+      return true;
+    }
+  },
+  quantity: {
+    custom: (value: any) => {
+      const num = parseFloat(value);
+      if (isNaN(num) || num <= 0) {
+        return 'Quantity must be a positive number';
+      }
+      return true;
+    }
+  },
+  unit: {
+    custom: (value: any) => {
+      const allowedUnits = ['pcs', 'kg', 'g', 'litre', 'dozen', 'hali'];
+      if (!allowedUnits.includes(value)) {
+        return 'Unit must be pcs, kg, g, litre, dozen or hali';
+      }
+      return true;
+    }
   }
 };
 
@@ -63,9 +91,12 @@ export const fileSchema: ValidationSchema = {
   type: {
     required: true,
     custom: (value: string) => {
-      const allowedTypes = ['text/plain', 'application/txt', 'text/csv', 'application/csv'];
+      const allowedTypes = [
+        'text/plain', 'application/txt', 'text/csv', 'application/csv',
+        'application/zip', 'application/x-zip-compressed'
+      ];
       if (!allowedTypes.includes(value)) {
-        return 'Only .txt and .csv files are allowed';
+        return 'Only .txt, .csv and .zip files are allowed';
       }
       return true;
     }
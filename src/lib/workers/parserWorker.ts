@@ -0,0 +1,65 @@
+// Reads and parses chat exports off the main thread, so large files don't freeze the page
+import type { ParserWorkerRequest, ParserWorkerResponse } from '../types';
+import { ParserPipeline } from '../services/parserPipeline';
+import { ItemAliasService } from '../services/itemAliasService';
+
+let abortController: AbortController | null = null;
+let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+let readCancelled = false;
+
+function post(response: ParserWorkerResponse) {
+  self.postMessage(response);
+}
+
+// Read the file as a stream, reporting progress by bytes; null when cancelled
+async function readFile(file: File): Promise<string | null> {
+  const stream = file.stream().getReader();
+  reader = stream;
+  readCancelled = false;
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await stream.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    chunks.push(decoder.decode(value, { stream: true }));
+    post({ type: 'progress', progress: file.size > 0 ? Math.round((bytesRead / file.size) * 100) : 100 });
+  }
+  reader = null;
+  if (readCancelled) return null;
+  chunks.push(decoder.decode());
+
+  return chunks.join('');
+}
+
+self.addEventListener('message', async (event: MessageEvent<ParserWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'cancel') {
+      abortController?.abort();
+      if (reader) {
+        // Nothing is parsed yet, so a cancelled read keeps nothing
+        readCancelled = true;
+        await reader.cancel();
+      }
+    } else if (request.type === 'read') {
+      post({ type: 'read', content: await readFile(request.file) });
+    } else if (request.type === 'parse') {
+      abortController = new AbortController();
+      const parser = new ParserPipeline(new ItemAliasService(request.aliases));
+      const result = await parser.parseFile(request.content, request.options, {
+        signal: abortController.signal,
+        onProgress: fraction => post({ type: 'progress', progress: Math.round(fraction * 100) })
+      });
+      abortController = null;
+      post({ type: 'parsed', result });
+    }
+  } catch (error) {
+    abortController = null;
+    reader = null;
+    post({ type: 'error', error: error instanceof Error ? error.message : 'Failed to parse file' });
+  }
+});